@@ -16,6 +16,13 @@ export default [
     },
     rules: {
       "dom-security/no-unsafe-redirect": "error",
+      "dom-security/no-unsafe-url-attribute": "error",
+      "dom-security/no-unsafe-jsx-url": "error",
+      "dom-security/no-unsafe-html": "error",
+      "dom-security/no-unsafe-eval": "error",
+      "dom-security/require-message-origin-check": "error",
+      "dom-security/no-unsafe-post-message": "error",
+      "dom-security/no-unsafe-script-url": "error",
     },
   },
   {
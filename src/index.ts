@@ -1,4 +1,11 @@
 import noUnsafeRedirect from "./rules/no-unsafe-redirect.js";
+import noUnsafeUrlAttribute from "./rules/no-unsafe-url-attribute.js";
+import noUnsafeJsxUrl from "./rules/no-unsafe-jsx-url.js";
+import noUnsafeHtml from "./rules/no-unsafe-html.js";
+import noUnsafeEval from "./rules/no-unsafe-eval.js";
+import requireMessageOriginCheck from "./rules/require-message-origin-check.js";
+import noUnsafePostMessage from "./rules/no-unsafe-post-message.js";
+import noUnsafeScriptUrl from "./rules/no-unsafe-script-url.js";
 
 const plugin = {
   meta: {
@@ -7,6 +14,13 @@ const plugin = {
   },
   rules: {
     "no-unsafe-redirect": noUnsafeRedirect,
+    "no-unsafe-url-attribute": noUnsafeUrlAttribute,
+    "no-unsafe-jsx-url": noUnsafeJsxUrl,
+    "no-unsafe-html": noUnsafeHtml,
+    "no-unsafe-eval": noUnsafeEval,
+    "require-message-origin-check": requireMessageOriginCheck,
+    "no-unsafe-post-message": noUnsafePostMessage,
+    "no-unsafe-script-url": noUnsafeScriptUrl,
   },
   configs: {},
 };
@@ -20,17 +34,90 @@ plugin.configs = {
       "dom-security/no-unsafe-redirect": "error",
     },
   },
+  all: {
+    plugins: {
+      "dom-security": plugin,
+    },
+    rules: {
+      "dom-security/no-unsafe-redirect": "error",
+      "dom-security/no-unsafe-url-attribute": "error",
+      "dom-security/no-unsafe-jsx-url": "error",
+      "dom-security/no-unsafe-html": "error",
+      "dom-security/no-unsafe-eval": "error",
+      "dom-security/require-message-origin-check": "error",
+      "dom-security/no-unsafe-post-message": "error",
+      "dom-security/no-unsafe-script-url": "error",
+    },
+  },
 };
 
 export default plugin;
 
-export { noUnsafeRedirect };
+export {
+  noUnsafeRedirect,
+  noUnsafeUrlAttribute,
+  noUnsafeJsxUrl,
+  noUnsafeHtml,
+  noUnsafeEval,
+  requireMessageOriginCheck,
+  noUnsafePostMessage,
+  noUnsafeScriptUrl,
+};
 export const rules = plugin.rules;
 export const configs = plugin.configs;
 
 export {
   ensureTrustedUrl,
   isTrustedUrl,
+  getUntrustedUrlReason,
   type TrustedUrl,
   type EnsureTrustedUrlOptions,
+  type OriginPattern,
+  type PathPattern,
+  type PathRule,
 } from "./runtime/ensure-trusted-url.js";
+
+export {
+  UntrustedUrlError,
+  type UntrustedUrlReason,
+  type UntrustedUrlParts,
+} from "./runtime/untrusted-url-error.js";
+
+export {
+  createUrlValidator,
+  type UrlValidator,
+} from "./runtime/create-url-validator.js";
+
+export {
+  defineUrlPolicy,
+  type UrlPolicy,
+  type UrlPolicyPathRule,
+} from "./runtime/url-policy.js";
+
+export {
+  toTrustedUrl,
+  getTrustedReturnUrl,
+  safeRedirect,
+  type GetTrustedReturnUrlOptions,
+  type SafeRedirectOptions,
+} from "./runtime/trusted-redirects.js";
+
+export {
+  ensureTrustedHtml,
+  type TrustedHtml,
+  type EnsureTrustedHtmlOptions,
+} from "./runtime/ensure-trusted-html.js";
+
+export {
+  ensureTrustedScriptUrl,
+  type TrustedScriptUrl,
+  type EnsureTrustedScriptUrlOptions,
+} from "./runtime/ensure-trusted-script-url.js";
+
+export {
+  createTrustedTypesPolicy,
+  type TrustedTypesPolicy,
+  type TrustedTypesPolicyOptions,
+  type TrustedScriptURL,
+  type TrustedHTML,
+} from "./runtime/trusted-types.js";
@@ -0,0 +1,215 @@
+import { AST_NODE_TYPES, TSESTree } from "@typescript-eslint/utils";
+import { SourceCode } from "@typescript-eslint/utils/ts-eslint";
+import {
+  getConstInitializer,
+  getImportBinding,
+  getPropertyName,
+  getStaticStringValue,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import type { Analysis } from "../utils/analysis.js";
+
+export type JQueryPreset = "jquery";
+
+export const JQUERY_PRESET: JQueryPreset = "jquery";
+
+/**
+ * Methods of jQuery objects that parse string arguments as HTML
+ */
+export const JQUERY_HTML_METHODS = new Set([
+  "html",
+  "append",
+  "prepend",
+  "after",
+  "before",
+  "replaceWith",
+  "wrap",
+  "wrapAll",
+  "wrapInner",
+]);
+
+/**
+ * Methods of jQuery objects that set attributes or properties
+ */
+export const JQUERY_ATTRIBUTE_METHODS = new Set(["attr", "prop"]);
+
+/**
+ * Attributes and properties that hold a URL the browser navigates to or loads
+ */
+export const JQUERY_URL_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "action",
+  "formaction",
+]);
+
+const JQUERY_MODULES = new Set(["jquery"]);
+
+/**
+ * A call to a method of a jQuery object, e.g. `$(el).html(value)`
+ */
+export interface JQueryMethodCall {
+  method: string;
+  object: TSESTree.Node;
+}
+
+/**
+ * Recognizes jQuery in the "jquery" preset
+ * `$`/`jQuery` are identified by their TypeScript types (`JQueryStatic` and
+ * `JQuery<...>`) or by an import from "jquery", never by name alone
+ */
+export function createJQueryAnalysis(
+  sourceCode: SourceCode,
+  { getType, hasTypeName }: Pick<Analysis, "getType" | "hasTypeName">
+) {
+  function hasJQueryType(node: TSESTree.Node, typeName: string): boolean {
+    const type = getType(node);
+    return type !== null && hasTypeName(type, typeName);
+  }
+
+  /**
+   * Checks if a node is the jQuery function itself: `$`, `jQuery`
+   */
+  function isJQueryFunction(
+    node: TSESTree.Node,
+    seen = new Set<TSESTree.Node>()
+  ): boolean {
+    const expression = unwrapChainExpression(node);
+    if (seen.has(expression)) {
+      return false;
+    }
+    seen.add(expression);
+
+    if (hasJQueryType(expression, "JQueryStatic")) {
+      return true;
+    }
+
+    if (expression.type !== AST_NODE_TYPES.Identifier) {
+      return false;
+    }
+
+    const binding = getImportBinding(expression, sourceCode);
+    if (binding) {
+      return (
+        JQUERY_MODULES.has(binding.source) &&
+        (binding.imported === "default" || binding.imported === "*")
+      );
+    }
+
+    const init = getConstInitializer(expression, sourceCode);
+    return init !== null && isJQueryFunction(init, seen);
+  }
+
+  /**
+   * Checks if a node is a jQuery object, either by its type or because it is
+   * created by `$(...)` or a chained method call on another jQuery object
+   */
+  function isJQueryObject(
+    node: TSESTree.Node,
+    seen = new Set<TSESTree.Node>()
+  ): boolean {
+    const expression = unwrapChainExpression(node);
+    if (seen.has(expression)) {
+      return false;
+    }
+    seen.add(expression);
+
+    if (hasJQueryType(expression, "JQuery")) {
+      return true;
+    }
+
+    if (expression.type === AST_NODE_TYPES.CallExpression) {
+      const callee = unwrapChainExpression(expression.callee);
+      return (
+        isJQueryFunction(callee) ||
+        (callee.type === AST_NODE_TYPES.MemberExpression &&
+          isJQueryObject(callee.object, seen))
+      );
+    }
+
+    if (expression.type === AST_NODE_TYPES.Identifier) {
+      const init = getConstInitializer(expression, sourceCode);
+      return init !== null && isJQueryObject(init, seen);
+    }
+
+    return false;
+  }
+
+  /**
+   * Gets the method and receiver of a call to a jQuery object method
+   */
+  function getJQueryMethodCall(
+    node: TSESTree.CallExpression
+  ): JQueryMethodCall | null {
+    const callee = unwrapChainExpression(node.callee);
+    if (callee.type !== AST_NODE_TYPES.MemberExpression) {
+      return null;
+    }
+
+    const method = getPropertyName(callee);
+    if (!method || !isJQueryObject(callee.object)) {
+      return null;
+    }
+
+    return { method, object: callee.object };
+  }
+
+  /**
+   * Gets the name of a static jQuery utility that is called, e.g. `$.globalEval`
+   */
+  function getJQueryUtilityCall(node: TSESTree.CallExpression): string | null {
+    const callee = unwrapChainExpression(node.callee);
+    if (
+      callee.type !== AST_NODE_TYPES.MemberExpression ||
+      !isJQueryFunction(callee.object)
+    ) {
+      return null;
+    }
+
+    return getPropertyName(callee);
+  }
+
+  /**
+   * Gets the URL values set by `.attr()`/`.prop()`, either by name
+   * (`.attr("href", url)`) or in an object (`.attr({ href: url })`)
+   */
+  function getUrlAttributeValues(
+    node: TSESTree.CallExpression
+  ): TSESTree.Node[] {
+    const [first, second] = node.arguments;
+    if (!first) {
+      return [];
+    }
+
+    if (second) {
+      const name = getStaticStringValue(first, sourceCode)?.toLowerCase();
+      return name && JQUERY_URL_ATTRIBUTES.has(name) ? [second] : [];
+    }
+
+    if (first.type !== AST_NODE_TYPES.ObjectExpression) {
+      return [];
+    }
+
+    return first.properties.flatMap((property) => {
+      if (property.type !== AST_NODE_TYPES.Property || property.computed) {
+        return [];
+      }
+
+      const name =
+        property.key.type === AST_NODE_TYPES.Identifier
+          ? property.key.name
+          : String(property.key.value);
+      return JQUERY_URL_ATTRIBUTES.has(name.toLowerCase())
+        ? [property.value]
+        : [];
+    });
+  }
+
+  return {
+    isJQueryFunction,
+    isJQueryObject,
+    getJQueryMethodCall,
+    getJQueryUtilityCall,
+    getUrlAttributeValues,
+  };
+}
@@ -0,0 +1,69 @@
+import type { RedirectSink } from "../rules/no-unsafe-redirect.js";
+
+export type RouterPreset = "react-router" | "next" | "vue-router" | "angular";
+
+function reactRouterSinks(from: string): RedirectSink[] {
+  return [
+    // const navigate = useNavigate(); navigate(url)
+    { from, name: "useNavigate", factory: true, properties: ["pathname"] },
+    { from, name: "redirect" },
+    { from, name: "redirectDocument" },
+    { from, name: "replace" },
+  ];
+}
+
+function routerMethodSinks(
+  target: Omit<Extract<RedirectSink, { name: string }>, "member">,
+  properties: string[]
+): RedirectSink[] {
+  return ["push", "replace"].map((member) => ({
+    ...target,
+    member,
+    properties,
+  }));
+}
+
+/**
+ * Redirect sinks of common SPA routers
+ * Sinks are identified by the module they are imported from or by the
+ * TypeScript type of the router, never by name alone
+ */
+export const ROUTER_PRESETS: Record<RouterPreset, RedirectSink[]> = {
+  "react-router": [
+    ...reactRouterSinks("react-router"),
+    ...reactRouterSinks("react-router-dom"),
+  ],
+
+  next: [
+    // const router = useRouter(); router.push(url)
+    ...routerMethodSinks(
+      { from: "next/router", name: "useRouter", factory: true },
+      ["pathname"]
+    ),
+    // import Router from "next/router"; Router.push(url)
+    ...routerMethodSinks({ from: "next/router", name: "default" }, [
+      "pathname",
+    ]),
+    ...routerMethodSinks(
+      { from: "next/navigation", name: "useRouter", factory: true },
+      []
+    ),
+    { from: "next/navigation", name: "redirect" },
+    { from: "next/navigation", name: "permanentRedirect" },
+    { method: "NextRouter#push", from: "next", properties: ["pathname"] },
+    { method: "NextRouter#replace", from: "next", properties: ["pathname"] },
+    { method: "AppRouterInstance#push", from: "next" },
+    { method: "AppRouterInstance#replace", from: "next" },
+  ],
+
+  "vue-router": [
+    ...routerMethodSinks(
+      { from: "vue-router", name: "useRouter", factory: true },
+      ["path"]
+    ),
+    { method: "Router#push", from: "vue-router", properties: ["path"] },
+    { method: "Router#replace", from: "vue-router", properties: ["path"] },
+  ],
+
+  angular: [{ method: "Router#navigateByUrl", from: "@angular/router" }],
+};
@@ -0,0 +1,245 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getPropertyName,
+  getStaticStringValue,
+  isGlobalIdentifier,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import { createAnalysis } from "../utils/analysis.js";
+import {
+  createJQueryAnalysis,
+  JQUERY_PRESET,
+  type JQueryPreset,
+} from "../presets/jquery.js";
+import ts, { type Type } from "typescript";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "unsafeEval" | "unsafeTimer";
+
+type Options = [
+  {
+    presets?: JQueryPreset[];
+  }
+];
+
+/**
+ * Global functions that evaluate strings as code, and which of their
+ * arguments are code
+ * - `first`: only the first argument
+ * - `all`: every argument (Function parameters and body)
+ */
+const EVAL_FUNCTIONS: Record<string, "first" | "all"> = {
+  eval: "first",
+  execScript: "first",
+  Function: "all",
+  setTimeout: "first",
+  setInterval: "first",
+  setImmediate: "first",
+};
+
+/**
+ * Functions that also accept a callback instead of a string
+ */
+const TIMER_FUNCTIONS = new Set(["setTimeout", "setInterval", "setImmediate"]);
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-eval",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow evaluating dynamic strings as code with eval(), new Function() and string timers",
+    },
+    messages: {
+      unsafeEval:
+        "{{sink}} evaluates a dynamic string as code. Make sure the code is a literal",
+      unsafeTimer:
+        "{{sink}} evaluates a dynamic string as code. Pass a function instead, or make sure the code is a literal",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          presets: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [JQUERY_PRESET],
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      presets: [],
+    },
+  ],
+
+  create(context, [{ presets = [] }]) {
+    const {
+      getType,
+      hasTypeName,
+      isStringLikeType,
+      isRedirectObject,
+      trackVariable,
+    } = createAnalysis(context);
+    const jquery = presets.includes(JQUERY_PRESET)
+      ? createJQueryAnalysis(context.sourceCode, { getType, hasTypeName })
+      : null;
+
+    /**
+     * Resolves the callee to the name of the global eval-like function it
+     * refers to, also through windows: `window.eval`, `const w = window; w.eval`
+     */
+    function getEvalFunctionName(callee: TSESTree.Node): string | null {
+      const node = unwrapChainExpression(callee);
+
+      // (0, eval)(code)
+      if (node.type === AST_NODE_TYPES.SequenceExpression) {
+        const last = node.expressions[node.expressions.length - 1];
+        return last ? getEvalFunctionName(last) : null;
+      }
+
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return Object.hasOwn(EVAL_FUNCTIONS, node.name) &&
+          isGlobalIdentifier(node, context.sourceCode)
+          ? node.name
+          : null;
+      }
+
+      if (node.type === AST_NODE_TYPES.MemberExpression) {
+        const propertyName = getPropertyName(node);
+        if (
+          propertyName &&
+          Object.hasOwn(EVAL_FUNCTIONS, propertyName) &&
+          isRedirectObject(node.object) === "window"
+        ) {
+          return propertyName;
+        }
+      }
+
+      return null;
+    }
+
+    function isStringType(type: Type, allowFunctions: boolean): boolean {
+      if (type.getCallSignatures().length > 0) {
+        return false;
+      }
+
+      // untyped timer callbacks are far more likely to be functions
+      if (
+        allowFunctions &&
+        (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) !== 0
+      ) {
+        return false;
+      }
+
+      // constants such as `cond ? "a()" : "b()"`
+      if (
+        type.isStringLiteral() ||
+        (type.isUnion() && type.types.every((t) => t.isStringLiteral()))
+      ) {
+        return false;
+      }
+
+      return isStringLikeType(type);
+    }
+
+    /**
+     * Checks if an argument is a string that is not known statically
+     */
+    function isDynamicCode(
+      node: TSESTree.CallExpressionArgument,
+      allowFunctions: boolean
+    ): boolean {
+      if (getStaticStringValue(node, context.sourceCode) !== null) {
+        return false;
+      }
+
+      if (
+        node.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+        node.type === AST_NODE_TYPES.FunctionExpression
+      ) {
+        return false;
+      }
+
+      const type = getType(node);
+      if (type) {
+        return isStringType(type, allowFunctions);
+      }
+
+      // without type information, timer callbacks are usually functions
+      if (allowFunctions) {
+        return (
+          node.type === AST_NODE_TYPES.TemplateLiteral ||
+          node.type === AST_NODE_TYPES.BinaryExpression
+        );
+      }
+
+      return true;
+    }
+
+    function checkCall(node: TSESTree.CallExpression | TSESTree.NewExpression) {
+      if (
+        node.type === AST_NODE_TYPES.CallExpression &&
+        jquery?.getJQueryUtilityCall(node) === "globalEval"
+      ) {
+        const [code] = node.arguments;
+        if (code && isDynamicCode(code, false)) {
+          context.report({
+            node: code,
+            messageId: "unsafeEval",
+            data: {
+              sink: "jQuery.globalEval()",
+            },
+          });
+        }
+        return;
+      }
+
+      const name = getEvalFunctionName(node.callee);
+      if (!name) {
+        return;
+      }
+
+      const codeArguments =
+        EVAL_FUNCTIONS[name] === "all"
+          ? node.arguments
+          : node.arguments.slice(0, 1);
+
+      for (const argument of codeArguments) {
+        const isTimer = TIMER_FUNCTIONS.has(name);
+        if (isDynamicCode(argument, isTimer)) {
+          context.report({
+            node: argument,
+            messageId: isTimer ? "unsafeTimer" : "unsafeEval",
+            data: {
+              sink: `${name}()`,
+            },
+          });
+        }
+      }
+    }
+
+    return {
+      VariableDeclarator(node) {
+        trackVariable(node);
+      },
+
+      CallExpression: checkCall,
+      NewExpression: checkCall,
+    };
+  },
+});
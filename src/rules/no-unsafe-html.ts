@@ -0,0 +1,518 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getPropertyName,
+  getConstInitializer,
+  getStaticStringValue,
+  isGlobalIdentifier,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import {
+  createAnalysis,
+  RUNTIME_MODULE,
+  type TrustedFunction,
+} from "../utils/analysis.js";
+import {
+  createJQueryAnalysis,
+  JQUERY_HTML_METHODS,
+  JQUERY_PRESET,
+  type JQueryPreset,
+} from "../presets/jquery.js";
+import ts, { type Type } from "typescript";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "unsafeHtml";
+
+type Options = [
+  {
+    trustedFunctions?: TrustedFunction[];
+    presets?: JQueryPreset[];
+  }
+];
+
+const DEFAULT_TRUSTED_HTML_FUNCTIONS: TrustedFunction[] = [
+  { from: RUNTIME_MODULE, name: "ensureTrustedHtml" },
+  { from: "eslint-plugin-dom-security", name: "ensureTrustedHtml" },
+];
+
+/**
+ * Properties that parse their value as HTML
+ */
+const HTML_PROPERTIES = new Set(["innerHTML", "outerHTML", "srcdoc"]);
+
+/**
+ * Methods that insert nodes into a document, used to tell whether the result
+ * of `DOMParser#parseFromString` ends up in the page
+ */
+const INSERTION_METHODS = new Set([
+  "append",
+  "appendChild",
+  "prepend",
+  "insertBefore",
+  "replaceChild",
+  "replaceWith",
+  "replaceChildren",
+  "after",
+  "before",
+  "insertAdjacentElement",
+  "importNode",
+  "adoptNode",
+]);
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-html",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow untrusted HTML in innerHTML, document.write() and other HTML sinks",
+    },
+    messages: {
+      unsafeHtml:
+        "Unsafe HTML passed to {{sink}}. Make sure the HTML is safe by doing one of the following:\n" +
+        "1. Use ensureTrustedHtml() provided by eslint-plugin-dom-security with a sanitizer\n" +
+        "2. Use your own sanitizer and cast the return type to TrustedHtml\n" +
+        "3. Ignore this error with an explanation in a code comment attesting to the safety of the HTML",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+          presets: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [JQUERY_PRESET],
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      trustedFunctions: [],
+      presets: [],
+    },
+  ],
+
+  create(context, [{ trustedFunctions = [], presets = [] }]) {
+    const {
+      getType,
+      hasTypeName,
+      isTrustedType,
+      isStringLikeType,
+      isTrustedFunctionCall,
+      getStaticUrls,
+    } = createAnalysis(context, {
+      trustedFunctions,
+      brand: "TrustedHtml",
+      defaultTrustedFunctions: DEFAULT_TRUSTED_HTML_FUNCTIONS,
+    });
+    const jquery = presets.includes(JQUERY_PRESET)
+      ? createJQueryAnalysis(context.sourceCode, { getType, hasTypeName })
+      : null;
+
+    /**
+     * Checks if a value is safe to insert as HTML
+     * Literals are safe, and dynamic parts of templates and concatenations
+     * have to be safe themselves
+     */
+    function isHtmlSafe(
+      node: TSESTree.Node,
+      seen = new Set<TSESTree.Node>()
+    ): boolean {
+      if (seen.has(node)) {
+        return false;
+      }
+      seen.add(node);
+
+      if (getStaticStringValue(node, context.sourceCode) !== null) {
+        return true;
+      }
+
+      switch (node.type) {
+        case AST_NODE_TYPES.TSAsExpression:
+        case AST_NODE_TYPES.TSSatisfiesExpression:
+        case AST_NODE_TYPES.TSNonNullExpression:
+        case AST_NODE_TYPES.TSTypeAssertion:
+          if (isHtmlSafe(node.expression, seen)) {
+            return true;
+          }
+          break;
+
+        case AST_NODE_TYPES.ConditionalExpression:
+          if (
+            isHtmlSafe(node.consequent, seen) &&
+            isHtmlSafe(node.alternate, seen)
+          ) {
+            return true;
+          }
+          break;
+
+        case AST_NODE_TYPES.LogicalExpression:
+          if (isHtmlSafe(node.left, seen) && isHtmlSafe(node.right, seen)) {
+            return true;
+          }
+          break;
+
+        case AST_NODE_TYPES.SequenceExpression: {
+          const last = node.expressions[node.expressions.length - 1];
+          if (last && isHtmlSafe(last, seen)) {
+            return true;
+          }
+          break;
+        }
+
+        case AST_NODE_TYPES.Identifier: {
+          const init = getConstInitializer(node, context.sourceCode);
+          if (init && isHtmlSafe(init, seen)) {
+            return true;
+          }
+          break;
+        }
+
+        case AST_NODE_TYPES.TemplateLiteral:
+          if (
+            node.expressions.every((expression) => isHtmlSafe(expression, seen))
+          ) {
+            return true;
+          }
+          break;
+
+        case AST_NODE_TYPES.BinaryExpression:
+          if (
+            node.operator === "+" &&
+            isHtmlSafe(node.left, seen) &&
+            isHtmlSafe(node.right, seen)
+          ) {
+            return true;
+          }
+          break;
+
+        case AST_NODE_TYPES.CallExpression:
+          if (isTrustedFunctionCall(node)) {
+            return true;
+          }
+          break;
+      }
+
+      const type = getType(node);
+      if (type && isSafeHtmlType(type)) {
+        return true;
+      }
+
+      return false;
+    }
+
+    /**
+     * Checks if every value of a type is safe HTML: TrustedHtml, string literal
+     * types, and non-string values such as numbers that can't contain markup
+     */
+    function isSafeHtmlType(type: Type): boolean {
+      if (isTrustedType(type) || type.isStringLiteral()) {
+        return true;
+      }
+
+      if (type.isUnion()) {
+        return type.types.every(isSafeHtmlType);
+      }
+
+      return !isStringLikeType(type);
+    }
+
+    /**
+     * Checks if the argument of `$()` can be parsed as HTML
+     * jQuery only parses strings that start with `<` as HTML and treats other
+     * strings as selectors. Elements, `this`, `document`, `window` and
+     * callbacks are wrapped or run as they are.
+     */
+    function isJQueryHtmlArgument(
+      node: TSESTree.Node,
+      seen = new Set<TSESTree.Node>()
+    ): boolean {
+      if (seen.has(node)) {
+        return false;
+      }
+      seen.add(node);
+
+      switch (node.type) {
+        case AST_NODE_TYPES.ThisExpression:
+        case AST_NODE_TYPES.FunctionExpression:
+        case AST_NODE_TYPES.ArrowFunctionExpression:
+          return false;
+
+        case AST_NODE_TYPES.TSAsExpression:
+        case AST_NODE_TYPES.TSSatisfiesExpression:
+        case AST_NODE_TYPES.TSNonNullExpression:
+        case AST_NODE_TYPES.TSTypeAssertion:
+          return isJQueryHtmlArgument(node.expression, seen);
+
+        case AST_NODE_TYPES.ConditionalExpression:
+          return (
+            isJQueryHtmlArgument(node.consequent, seen) ||
+            isJQueryHtmlArgument(node.alternate, seen)
+          );
+
+        case AST_NODE_TYPES.LogicalExpression:
+          return (
+            isJQueryHtmlArgument(node.left, seen) ||
+            isJQueryHtmlArgument(node.right, seen)
+          );
+
+        case AST_NODE_TYPES.Identifier: {
+          if (
+            (node.name === "document" || node.name === "window") &&
+            isGlobalIdentifier(node, context.sourceCode)
+          ) {
+            return false;
+          }
+
+          const init = getConstInitializer(node, context.sourceCode);
+          if (init) {
+            return isJQueryHtmlArgument(init, seen);
+          }
+          break;
+        }
+      }
+
+      const urls = getStaticUrls(node);
+      if (urls.length > 0) {
+        return urls.some(
+          ({ value, isComplete }) =>
+            value.trimStart().startsWith("<") ||
+            (!isComplete && value.trim() === "")
+        );
+      }
+
+      // Values without a known start are only HTML if they are strings, as
+      // untyped values in JavaScript are mostly elements and selectors
+      const type = getType(node);
+      return type !== null && isStringType(type);
+    }
+
+    function isStringType(type: Type): boolean {
+      if (type.isUnion() || type.isIntersection()) {
+        return type.types.some(isStringType);
+      }
+
+      return (type.flags & ts.TypeFlags.StringLike) !== 0;
+    }
+
+    function isDocument(node: TSESTree.Node): boolean {
+      const type = getType(node);
+      if (type && hasTypeName(type, "Document")) {
+        return true;
+      }
+
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return (
+          node.name === "document" &&
+          isGlobalIdentifier(node, context.sourceCode)
+        );
+      }
+
+      if (node.type === AST_NODE_TYPES.MemberExpression) {
+        const propertyName = getPropertyName(node);
+        return (
+          propertyName === "document" || propertyName === "contentDocument"
+        );
+      }
+
+      return false;
+    }
+
+    /**
+     * Checks if a parsed document (or nodes taken from it) is inserted into
+     * another document, following const variables it is stored in
+     */
+    function isInserted(
+      node: TSESTree.Node,
+      seen = new Set<TSESLint.Scope.Variable>()
+    ): boolean {
+      let current = node;
+      let parent = current.parent;
+
+      // doc.body.firstChild, doc.querySelector("div"), doc?.body!
+      while (
+        parent &&
+        ((parent.type === AST_NODE_TYPES.MemberExpression &&
+          parent.object === current) ||
+          (parent.type === AST_NODE_TYPES.CallExpression &&
+            parent.callee === current) ||
+          parent.type === AST_NODE_TYPES.ChainExpression ||
+          parent.type === AST_NODE_TYPES.TSNonNullExpression ||
+          parent.type === AST_NODE_TYPES.TSAsExpression)
+      ) {
+        current = parent;
+        parent = current.parent;
+      }
+
+      if (parent?.type === AST_NODE_TYPES.SpreadElement) {
+        current = parent;
+        parent = current.parent;
+      }
+
+      if (
+        parent?.type === AST_NODE_TYPES.CallExpression &&
+        parent.arguments.includes(current as TSESTree.CallExpressionArgument)
+      ) {
+        const callee = unwrapChainExpression(parent.callee);
+        const methodName =
+          callee.type === AST_NODE_TYPES.MemberExpression
+            ? getPropertyName(callee)
+            : null;
+        return methodName !== null && INSERTION_METHODS.has(methodName);
+      }
+
+      if (
+        parent?.type === AST_NODE_TYPES.VariableDeclarator &&
+        parent.init === current &&
+        parent.id.type === AST_NODE_TYPES.Identifier
+      ) {
+        const variable = ASTUtils.findVariable(
+          context.sourceCode.getScope(parent),
+          parent.id
+        );
+        if (!variable || seen.has(variable)) {
+          return false;
+        }
+        seen.add(variable);
+
+        return variable.references.some(
+          (reference) =>
+            reference.isRead() && isInserted(reference.identifier, seen)
+        );
+      }
+
+      return false;
+    }
+
+    function checkHtml(node: TSESTree.Node, sink: string) {
+      if (!isHtmlSafe(node)) {
+        context.report({
+          node,
+          messageId: "unsafeHtml",
+          data: { sink },
+        });
+      }
+    }
+
+    /**
+     * Checks HTML passed to `$(html)` and jQuery methods such as `.html()` and
+     * `.append()`. Selectors passed to `$()` are not HTML, elements and
+     * callbacks are not strings and pass the check by their type, and jQuery
+     * objects are recognized even without types
+     */
+    function checkJQueryCall(node: TSESTree.CallExpression) {
+      if (!jquery) {
+        return;
+      }
+
+      const [first] = node.arguments;
+      if (jquery.isJQueryFunction(node.callee)) {
+        if (first && isJQueryHtmlArgument(first)) {
+          checkHtml(first, "jQuery()");
+        }
+        return;
+      }
+
+      const call = jquery.getJQueryMethodCall(node);
+      if (call && JQUERY_HTML_METHODS.has(call.method)) {
+        for (const argument of node.arguments) {
+          if (!jquery.isJQueryObject(argument)) {
+            checkHtml(argument, `jQuery#${call.method}()`);
+          }
+        }
+      }
+    }
+
+    return {
+      AssignmentExpression(node) {
+        const left = unwrapChainExpression(node.left);
+        if (left.type !== AST_NODE_TYPES.MemberExpression) {
+          return;
+        }
+
+        const propertyName = getPropertyName(left);
+        if (propertyName && HTML_PROPERTIES.has(propertyName)) {
+          checkHtml(node.right, propertyName);
+        }
+      },
+
+      CallExpression(node) {
+        checkJQueryCall(node);
+
+        const callee = unwrapChainExpression(node.callee);
+        if (callee.type !== AST_NODE_TYPES.MemberExpression) {
+          return;
+        }
+
+        const [first, second] = node.arguments;
+
+        switch (getPropertyName(callee)) {
+          case "insertAdjacentHTML":
+            if (second) {
+              checkHtml(second, "insertAdjacentHTML()");
+            }
+            break;
+
+          case "createContextualFragment":
+            if (first) {
+              checkHtml(first, "createContextualFragment()");
+            }
+            break;
+
+          case "write":
+          case "writeln":
+            if (isDocument(callee.object)) {
+              for (const argument of node.arguments) {
+                checkHtml(argument, `document.${getPropertyName(callee)}()`);
+              }
+            }
+            break;
+
+          case "parseFromString":
+            if (first && isInserted(node)) {
+              checkHtml(first, "DOMParser#parseFromString()");
+            }
+            break;
+
+          case "setAttribute":
+            if (
+              first &&
+              second &&
+              getStaticStringValue(first, context.sourceCode)?.toLowerCase() ===
+                "srcdoc"
+            ) {
+              checkHtml(second, "srcdoc");
+            }
+            break;
+        }
+      },
+    };
+  },
+});
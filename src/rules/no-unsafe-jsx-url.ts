@@ -0,0 +1,267 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import { getImportBinding } from "../utils/index.js";
+import { createAnalysis, type TrustedFunction } from "../utils/analysis.js";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "unsafeJsxUrl";
+
+/**
+ * A component whose props are URL sinks
+ * - `{ element: "Link" }` matches the element by its name as written (`<Link>`, `<UI.Link>`)
+ * - `{ from: "next/link", name: "default" }` matches the element by the import it is bound
+ *   to, including renamed and namespace imports
+ */
+export type ComponentSink = (
+  | { element: string }
+  | { from: string; name: string }
+) & {
+  props: string[];
+};
+
+type Options = [
+  {
+    components?: ComponentSink[];
+    trustedFunctions?: TrustedFunction[];
+    allowedSchemes?: string[];
+  }
+];
+
+/**
+ * URL-bearing props of intrinsic elements
+ */
+const URL_PROPS = new Set([
+  "href",
+  "src",
+  "action",
+  "formAction",
+  "xlinkHref",
+  "xlink:href",
+  "poster",
+]);
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-jsx-url",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow untrusted URLs in URL-bearing JSX props such as href and src",
+    },
+    messages: {
+      unsafeJsxUrl:
+        "Unsafe URL in the {{prop}} prop of <{{element}}>. Make sure the URL is safe by doing one of the following:\n" +
+        "1. Use ensureTrustedUrl() provided by eslint-plugin-dom-security to validate the URL\n" +
+        "2. Use your own validator and cast the return type to TrustedUrl\n" +
+        "3. Ignore this error with an explanation in a code comment attesting to the safety of the URL",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          components: {
+            type: "array",
+            items: {
+              oneOf: [
+                {
+                  type: "object",
+                  properties: {
+                    element: { type: "string" },
+                    props: { type: "array", items: { type: "string" } },
+                  },
+                  required: ["element", "props"],
+                  additionalProperties: false,
+                },
+                {
+                  type: "object",
+                  properties: {
+                    from: { type: "string" },
+                    name: { type: "string" },
+                    props: { type: "array", items: { type: "string" } },
+                  },
+                  required: ["from", "name", "props"],
+                  additionalProperties: false,
+                },
+              ],
+            },
+          },
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+          allowedSchemes: {
+            type: "array",
+            items: { type: "string", pattern: "^[a-zA-Z][a-zA-Z0-9+.-]*:$" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      components: [],
+      trustedFunctions: [],
+    },
+  ],
+
+  create(
+    context,
+    [{ components = [], trustedFunctions = [], allowedSchemes }]
+  ) {
+    const { getType, isStringLikeType, isValueSafe } = createAnalysis(context, {
+      trustedFunctions,
+      allowedSchemes,
+    });
+
+    function getName(
+      node:
+        | TSESTree.JSXTagNameExpression
+        | TSESTree.JSXIdentifier
+        | TSESTree.JSXNamespacedName
+    ): string {
+      switch (node.type) {
+        case AST_NODE_TYPES.JSXIdentifier:
+          return node.name;
+        case AST_NODE_TYPES.JSXNamespacedName:
+          return `${node.namespace.name}:${node.name.name}`;
+        case AST_NODE_TYPES.JSXMemberExpression:
+          return `${getName(node.object)}.${node.property.name}`;
+      }
+    }
+
+    /**
+     * Intrinsic elements are lowercase (`<a>`), custom elements (`<my-link>`)
+     * or namespaced (`<svg:a>`)
+     */
+    function isIntrinsicElement(name: TSESTree.JSXTagNameExpression): boolean {
+      return (
+        name.type === AST_NODE_TYPES.JSXNamespacedName ||
+        (name.type === AST_NODE_TYPES.JSXIdentifier &&
+          (/^[a-z]/.test(name.name) || name.name.includes("-")))
+      );
+    }
+
+    function matchesComponent(
+      name: TSESTree.JSXTagNameExpression,
+      component: ComponentSink
+    ): boolean {
+      if ("element" in component) {
+        return getName(name) === component.element;
+      }
+
+      if (name.type === AST_NODE_TYPES.JSXIdentifier) {
+        const binding = getImportBinding(name, context.sourceCode);
+        return (
+          binding?.source === component.from &&
+          binding.imported === component.name
+        );
+      }
+
+      // <UI.Link> with `import * as UI from "..."`
+      if (
+        name.type === AST_NODE_TYPES.JSXMemberExpression &&
+        name.object.type === AST_NODE_TYPES.JSXIdentifier
+      ) {
+        const binding = getImportBinding(name.object, context.sourceCode);
+        return (
+          binding?.source === component.from &&
+          binding.imported === "*" &&
+          name.property.name === component.name
+        );
+      }
+
+      return false;
+    }
+
+    /**
+     * Gets the expression of an attribute value, or null if it has no value
+     * that could be a URL (`<a href>`, `<a href={}>`)
+     */
+    function getValueExpression(
+      value: TSESTree.JSXAttribute["value"]
+    ): TSESTree.Expression | TSESTree.Literal | null {
+      if (!value) {
+        return null;
+      }
+
+      if (value.type === AST_NODE_TYPES.Literal) {
+        return value;
+      }
+
+      if (
+        value.type === AST_NODE_TYPES.JSXExpressionContainer &&
+        value.expression.type !== AST_NODE_TYPES.JSXEmptyExpression
+      ) {
+        return value.expression;
+      }
+
+      return null;
+    }
+
+    return {
+      JSXOpeningElement(node) {
+        const isIntrinsic = isIntrinsicElement(node.name);
+        const componentProps = isIntrinsic
+          ? []
+          : components
+              .filter((component) => matchesComponent(node.name, component))
+              .flatMap(({ props }) => props);
+
+        if (!isIntrinsic && componentProps.length === 0) {
+          return;
+        }
+
+        for (const attribute of node.attributes) {
+          if (attribute.type !== AST_NODE_TYPES.JSXAttribute) {
+            continue;
+          }
+
+          const prop = getName(attribute.name);
+          if (
+            isIntrinsic ? !URL_PROPS.has(prop) : !componentProps.includes(prop)
+          ) {
+            continue;
+          }
+
+          const value = getValueExpression(attribute.value);
+          if (!value) {
+            continue;
+          }
+
+          // components may also accept objects, e.g. <Link to={{ pathname }}>
+          if (!isIntrinsic) {
+            const type = getType(value);
+            if (type && !isStringLikeType(type)) {
+              continue;
+            }
+          }
+
+          if (!isValueSafe(value)) {
+            context.report({
+              node: value,
+              messageId: "unsafeJsxUrl",
+              data: { prop, element: getName(node.name) },
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,250 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getConstInitializer,
+  getPropertyName,
+  getStaticStringValue,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import { createAnalysis, type TrustedFunction } from "../utils/analysis.js";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "wildcardTargetOrigin" | "untrustedTargetOrigin";
+
+type Options = [
+  {
+    allowWildcardForConstantMessages?: boolean;
+    trustedFunctions?: TrustedFunction[];
+  }
+];
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-post-message",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow posting messages to other windows with a wildcard or untrusted target origin",
+    },
+    messages: {
+      wildcardTargetOrigin:
+        'postMessage() with the target origin "*" sends the message to whatever origin is loaded in the target window. Specify the origin the message is meant for',
+      untrustedTargetOrigin:
+        "The target origin of postMessage() is not a literal or a validated origin. Use a literal origin, location.origin, or a value typed as TrustedUrl or TrustedOrigin",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allowWildcardForConstantMessages: {
+            type: "boolean",
+          },
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      allowWildcardForConstantMessages: false,
+      trustedFunctions: [],
+    },
+  ],
+
+  create(
+    context,
+    [{ allowWildcardForConstantMessages = false, trustedFunctions = [] }]
+  ) {
+    const {
+      getType,
+      hasBrand,
+      isTrustedFunctionCall,
+      isRedirectObject,
+      trackVariable,
+    } = createAnalysis(context, { trustedFunctions });
+
+    /**
+     * Checks if a message is built only from literals, so it can't carry data
+     * that is sensitive at runtime
+     */
+    function isConstantMessage(
+      node: TSESTree.Node,
+      seen = new Set<TSESTree.Node>()
+    ): boolean {
+      if (seen.has(node)) {
+        return false;
+      }
+      seen.add(node);
+
+      switch (node.type) {
+        case AST_NODE_TYPES.Literal:
+          return true;
+
+        case AST_NODE_TYPES.TemplateLiteral:
+          return node.expressions.every((expression) =>
+            isConstantMessage(expression, seen)
+          );
+
+        case AST_NODE_TYPES.UnaryExpression:
+          return isConstantMessage(node.argument, seen);
+
+        case AST_NODE_TYPES.TSAsExpression:
+        case AST_NODE_TYPES.TSSatisfiesExpression:
+          return isConstantMessage(node.expression, seen);
+
+        case AST_NODE_TYPES.ArrayExpression:
+          return node.elements.every(
+            (element) => element === null || isConstantMessage(element, seen)
+          );
+
+        case AST_NODE_TYPES.ObjectExpression:
+          return node.properties.every(
+            (property) =>
+              property.type === AST_NODE_TYPES.Property &&
+              !property.computed &&
+              isConstantMessage(property.value, seen)
+          );
+
+        case AST_NODE_TYPES.Identifier: {
+          if (node.name === "undefined") {
+            return true;
+          }
+          const init = getConstInitializer(node, context.sourceCode);
+          return init !== null && isConstantMessage(init, seen);
+        }
+
+        default:
+          return false;
+      }
+    }
+
+    /**
+     * Checks if a non-literal target origin is known to be trusted
+     */
+    function isTrustedOrigin(node: TSESTree.Node): boolean {
+      const expression = unwrapChainExpression(node);
+
+      // location.origin, window.location.origin
+      if (
+        expression.type === AST_NODE_TYPES.MemberExpression &&
+        getPropertyName(expression) === "origin" &&
+        isRedirectObject(expression.object) === "location"
+      ) {
+        return true;
+      }
+
+      if (
+        expression.type === AST_NODE_TYPES.CallExpression &&
+        isTrustedFunctionCall(expression)
+      ) {
+        return true;
+      }
+
+      const type = getType(node);
+      if (!type) {
+        return false;
+      }
+
+      if (hasBrand(type, "TrustedUrl") || hasBrand(type, "TrustedOrigin")) {
+        return true;
+      }
+
+      // constants typed as a literal or a union of literals
+      const literals = type.isUnion() ? type.types : [type];
+      return literals.every((t) => t.isStringLiteral() && t.value !== "*");
+    }
+
+    /**
+     * Gets the target origin argument, either the second argument or the
+     * `targetOrigin` property of the options object
+     */
+    function getTargetOrigin(
+      node: TSESTree.CallExpression
+    ): TSESTree.Node | null {
+      const [, second] = node.arguments;
+      if (!second) {
+        return null;
+      }
+
+      if (second.type === AST_NODE_TYPES.ObjectExpression) {
+        const property = second.properties.find(
+          (property): property is TSESTree.Property =>
+            property.type === AST_NODE_TYPES.Property &&
+            !property.computed &&
+            property.key.type === AST_NODE_TYPES.Identifier &&
+            property.key.name === "targetOrigin"
+        );
+        return property?.value ?? null;
+      }
+
+      return second;
+    }
+
+    return {
+      VariableDeclarator(node) {
+        trackVariable(node);
+      },
+
+      CallExpression(node) {
+        const callee = unwrapChainExpression(node.callee);
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          getPropertyName(callee) !== "postMessage" ||
+          isRedirectObject(callee.object) !== "window"
+        ) {
+          return;
+        }
+
+        const targetOrigin = getTargetOrigin(node);
+        if (!targetOrigin) {
+          return;
+        }
+
+        const value = getStaticStringValue(targetOrigin, context.sourceCode);
+        if (value === "*") {
+          const [message] = node.arguments;
+          if (
+            allowWildcardForConstantMessages &&
+            message &&
+            isConstantMessage(message)
+          ) {
+            return;
+          }
+
+          context.report({
+            node: targetOrigin,
+            messageId: "wildcardTargetOrigin",
+          });
+          return;
+        }
+
+        if (value === null && !isTrustedOrigin(targetOrigin)) {
+          context.report({
+            node: targetOrigin,
+            messageId: "untrustedTargetOrigin",
+          });
+        }
+      },
+    };
+  },
+});
@@ -1,30 +1,146 @@
 import {
   AST_NODE_TYPES,
+  ASTUtils,
   ESLintUtils,
-  ParserServicesWithTypeInformation,
+  TSESLint,
   TSESTree,
 } from "@typescript-eslint/utils";
 import {
-  isSafeLiteral,
   getRedirectSinkType,
   getOpenCallInfo,
   isGlobalIdentifier,
+  getMemberPath,
+  getImportedCallee,
+  getPropertyName,
+  getDestructuredProperty,
+  getConstInitializer,
+  unwrapChainExpression,
 } from "../utils/index.js";
-import { TypeChecker, Type } from "typescript";
+import type { JSONSchema4 } from "@typescript-eslint/utils/json-schema";
+import { ROUTER_PRESETS, type RouterPreset } from "../presets/routers.js";
+import {
+  createJQueryAnalysis,
+  JQUERY_ATTRIBUTE_METHODS,
+  JQUERY_PRESET,
+  type JQueryPreset,
+} from "../presets/jquery.js";
+import {
+  createAnalysis,
+  DEFAULT_TRUSTED_FUNCTIONS,
+  RUNTIME_MODULE,
+  type RedirectObjectType,
+  type TrustedFunction,
+} from "../utils/analysis.js";
+import {
+  createLiteralUrlCheck,
+  createUrlPolicyCheck,
+  getUrlPolicy,
+  URL_POLICY_SCHEMA,
+  type StaticUrl,
+  type UrlPolicy,
+} from "../utils/url-policy.js";
+
+export type { TrustedFunction, UrlPolicy };
 
 const createRule = ESLintUtils.RuleCreator(
   (name) =>
     `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
 );
 
-type MessageIds = "unsafeRedirect";
-type Options = [];
-
-interface VariableInfo {
-  node: TSESTree.Identifier;
-  isLocation: boolean;
-  isNavigation: boolean;
-  isWindow: boolean;
+type MessageIds =
+  | "unsafeRedirect"
+  | "disallowedUrl"
+  | "invalidUrlPolicy"
+  | "suggestEnsureTrustedUrl"
+  | "suggestDisableComment";
+
+/**
+ * Identifies a function or method that is called
+ * - `{ call: "appRouter.go" }` matches calls by their callee path
+ * - `{ method: "NavService#redirectTo" }` matches method calls on a TypeScript type,
+ *   optionally only if the type is declared in the module given in `from`
+ * - `{ from: "@our/nav", name: "redirect" }` matches calls to an imported function.
+ *   With `member`, a method of the import is matched instead (`Router.push(...)`), and
+ *   with `factory`, the import is called first and its return value is (or owns) the
+ *   sink (`const navigate = useNavigate(); navigate(...)`)
+ */
+export type CallTarget =
+  | { call: string }
+  | { method: string; from?: string }
+  | { from: string; name: string; member?: string; factory?: boolean };
+
+/**
+ * A custom redirect sink. The URL is read from the given argument (default: 0).
+ * If the argument is an object literal, the given `properties` are checked instead.
+ */
+export type RedirectSink = CallTarget & {
+  argument?: number;
+  properties?: string[];
+};
+
+/**
+ * A custom untrusted source for taint mode. The return value of matching calls
+ * is considered attacker-controlled.
+ */
+export type TaintSource = CallTarget;
+
+type Options = [
+  {
+    sinks?: RedirectSink[];
+    trustedFunctions?: TrustedFunction[];
+    mode?: "all" | "taint";
+    sources?: TaintSource[];
+    allowedSchemes?: string[];
+    presets?: Array<RouterPreset | JQueryPreset>;
+    urlPolicy?: UrlPolicy;
+    checkLiteralUrls?: boolean;
+  }
+];
+
+/**
+ * Global functions that return a value derived from their (tainted) arguments
+ */
+const TAINT_PASSTHROUGH_FUNCTIONS = new Set([
+  "decodeURIComponent",
+  "decodeURI",
+  "unescape",
+  "atob",
+  "String",
+]);
+
+function callTargetSchemas(
+  extraProperties: Record<string, JSONSchema4>
+): JSONSchema4[] {
+  return [
+    {
+      type: "object",
+      properties: { call: { type: "string" }, ...extraProperties },
+      required: ["call"],
+      additionalProperties: false,
+    },
+    {
+      type: "object",
+      properties: {
+        method: { type: "string", pattern: "^[^#]+#[^#]+$" },
+        from: { type: "string" },
+        ...extraProperties,
+      },
+      required: ["method"],
+      additionalProperties: false,
+    },
+    {
+      type: "object",
+      properties: {
+        from: { type: "string" },
+        name: { type: "string" },
+        member: { type: "string" },
+        factory: { type: "boolean" },
+        ...extraProperties,
+      },
+      required: ["from", "name"],
+      additionalProperties: false,
+    },
+  ];
 }
 
 export default createRule<Options, MessageIds>({
@@ -41,267 +157,806 @@ export default createRule<Options, MessageIds>({
         "1. Use ensureTrustedUrl() provided by eslint-plugin-dom-security to validate the URL\n" +
         "2. Use your own validator and cast the return type to TrustedUrl\n" +
         "3. Ignore this error with an explanation in a code comment attesting to the safety of the redirect",
+      disallowedUrl:
+        "Redirect URL is not allowed by the URL policy: {{details}}",
+      invalidUrlPolicy:
+        "Invalid URL policy, redirect URLs are not checked against it: {{details}}",
+      suggestEnsureTrustedUrl: "Validate the URL with ensureTrustedUrl()",
+      suggestDisableComment:
+        "Ignore this error with an explanation of why the redirect is safe",
     },
-    schema: [],
+    hasSuggestions: true,
+    schema: [
+      {
+        type: "object",
+        properties: {
+          sinks: {
+            type: "array",
+            items: {
+              oneOf: callTargetSchemas({
+                argument: { type: "integer", minimum: 0 },
+                properties: { type: "array", items: { type: "string" } },
+              }),
+            },
+          },
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+          mode: {
+            type: "string",
+            enum: ["all", "taint"],
+          },
+          sources: {
+            type: "array",
+            items: {
+              oneOf: callTargetSchemas({}),
+            },
+          },
+          allowedSchemes: {
+            type: "array",
+            items: { type: "string", pattern: "^[a-zA-Z][a-zA-Z0-9+.-]*:$" },
+          },
+          presets: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [...Object.keys(ROUTER_PRESETS), JQUERY_PRESET],
+            },
+          },
+          urlPolicy: URL_POLICY_SCHEMA,
+          checkLiteralUrls: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
 
-  defaultOptions: [],
-
-  create(context) {
-    let services: ParserServicesWithTypeInformation | null = null;
-    let checker: TypeChecker | null = null;
-
+  defaultOptions: [
+    {
+      sinks: [],
+      trustedFunctions: [],
+      mode: "all",
+      sources: [],
+      presets: [],
+      checkLiteralUrls: false,
+    },
+  ],
+
+  create(
+    context,
+    [
+      {
+        sinks = [],
+        trustedFunctions = [],
+        mode = "all",
+        sources = [],
+        allowedSchemes,
+        presets = [],
+        urlPolicy,
+        checkLiteralUrls = false,
+      },
+    ]
+  ) {
+    const {
+      checker,
+      getType,
+      hasTypeName,
+      hasTypeNameFromModule,
+      isStringLikeType,
+      isTrustedFunctionCall,
+      isValueSafe,
+      isRedirectObject,
+      getStaticUrls,
+      trackVariable,
+    } = createAnalysis(context, { trustedFunctions, allowedSchemes });
+
+    // An invalid policy is reported once instead of crashing the lint run
+    let getPolicyViolation: ((url: StaticUrl) => string | null) | null = null;
+    let policyError: string | null = null;
     try {
-      services = ESLintUtils.getParserServices(context);
-      checker = services.program.getTypeChecker();
-    } catch {}
-
-    const trackedVariables = new Map<string, VariableInfo>();
-    const withStack: Array<"location" | "navigation" | "window" | null> = [];
-
-    function getType(node: TSESTree.Node): Type | null {
-      if (!services || !checker) return null;
-      try {
-        const tsNode = services.esTreeNodeToTSNodeMap.get(node);
-        return checker.getTypeAtLocation(tsNode);
-      } catch {
-        return null;
+      const policy = getUrlPolicy(context, urlPolicy);
+      getPolicyViolation = checkLiteralUrls
+        ? createLiteralUrlCheck(policy)
+        : policy
+        ? createUrlPolicyCheck(policy)
+        : null;
+    } catch (error) {
+      if (!(error instanceof TypeError)) {
+        throw error;
       }
+      policyError = error.message;
     }
 
+    const allSinks = [
+      ...sinks,
+      ...presets.flatMap((preset) =>
+        preset === JQUERY_PRESET ? [] : ROUTER_PRESETS[preset]
+      ),
+    ];
+    const jquery = presets.includes(JQUERY_PRESET)
+      ? createJQueryAnalysis(context.sourceCode, { getType, hasTypeName })
+      : null;
+    const withStack: Array<RedirectObjectType | null> = [];
     /**
-     * Checks if a type matches a specific type name by checking its symbol
-     * Handles complex types like "Window & typeof globalThis" by checking constituent types
+     * Checks if a callee matches a call target from the rule options
      */
-    function hasTypeName(type: Type, typeName: string): boolean {
-      if (!checker) return false;
+    function matchesCallTarget(
+      callee: TSESTree.Node,
+      target: CallTarget
+    ): boolean {
+      if ("call" in target) {
+        return getMemberPath(callee) === target.call;
+      }
 
-      const symbol = type.getSymbol();
-      if (symbol?.getName() === typeName) {
-        return true;
+      if ("method" in target) {
+        const [typeName, methodName] = target.method.split("#");
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          getPropertyName(callee) !== methodName
+        ) {
+          return false;
+        }
+
+        const objectType = getType(callee.object);
+        if (!objectType || !typeName) {
+          return false;
+        }
+
+        return target.from
+          ? hasTypeNameFromModule(objectType, typeName, target.from)
+          : hasTypeName(objectType, typeName);
       }
 
-      if (type.isUnion()) {
-        return type.types.some((t) => hasTypeName(t, typeName));
+      let importedNode: TSESTree.Node = callee;
+
+      if (target.member) {
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          getPropertyName(callee) !== target.member
+        ) {
+          return false;
+        }
+        importedNode = callee.object;
       }
 
-      if (type.isIntersection()) {
-        return type.types.some((t) => hasTypeName(t, typeName));
+      if (target.factory) {
+        const factoryCall =
+          importedNode.type === AST_NODE_TYPES.Identifier
+            ? getConstInitializer(importedNode, context.sourceCode)
+            : importedNode;
+        if (factoryCall?.type !== AST_NODE_TYPES.CallExpression) {
+          return false;
+        }
+        importedNode = unwrapChainExpression(factoryCall.callee);
       }
 
-      return false;
+      const imported = getImportedCallee(importedNode, context.sourceCode);
+      return imported?.source === target.from && imported.name === target.name;
     }
 
-    function isTrustedUrlType(type: Type): boolean {
-      if (!checker) return false;
+    /**
+     * Finds the custom or preset sink that a call matches
+     */
+    function getCustomSink(node: TSESTree.CallExpression): RedirectSink | null {
+      const callee = unwrapChainExpression(node.callee);
+      return allSinks.find((sink) => matchesCallTarget(callee, sink)) ?? null;
+    }
+
+    /**
+     * Checks the URL argument of a custom or preset sink
+     * Object literals are checked by the sink's URL properties, e.g. { path: url },
+     * and values typed as non-string objects (e.g. route trees) are ignored
+     */
+    function checkCustomSinkArgument(
+      node: TSESTree.CallExpressionArgument,
+      sink: RedirectSink
+    ) {
+      if (node.type === AST_NODE_TYPES.ObjectExpression) {
+        for (const property of node.properties) {
+          if (property.type !== AST_NODE_TYPES.Property) {
+            continue;
+          }
 
-      const properties = type.getProperties();
-      const brandProp = properties.find((prop) => prop.getName() === "__brand");
+          const keyName =
+            property.key.type === AST_NODE_TYPES.Identifier &&
+            !property.computed
+              ? property.key.name
+              : property.key.type === AST_NODE_TYPES.Literal
+              ? String(property.key.value)
+              : null;
 
-      if (!brandProp) {
-        return false;
+          if (keyName && sink.properties?.includes(keyName)) {
+            checkUrlValue(property.value);
+          }
+        }
+        return;
       }
 
-      const brandType = checker.getTypeOfSymbol(brandProp);
+      // Non-string literals, e.g. navigate(-1)
+      if (
+        (node.type === AST_NODE_TYPES.Literal &&
+          typeof node.value !== "string") ||
+        (node.type === AST_NODE_TYPES.UnaryExpression &&
+          node.argument.type === AST_NODE_TYPES.Literal)
+      ) {
+        return;
+      }
 
-      if (brandType.isStringLiteral()) {
-        return brandType.value === "TrustedUrl";
+      const type = getType(node);
+      if (type && !isStringLikeType(type)) {
+        return;
       }
 
-      return false;
+      checkUrlValue(node);
     }
 
-    function isValueSafe(node: TSESTree.Node): boolean {
-      if (isSafeLiteral(node)) {
-        return true;
+    /**
+     * Checks URLs set with jQuery's `.attr()` and `.prop()`, including
+     * `$(location).attr("href", url)`
+     * Values typed as non-strings (e.g. callbacks) are ignored
+     */
+    function checkJQueryCall(node: TSESTree.CallExpression) {
+      const call = jquery?.getJQueryMethodCall(node);
+      if (!jquery || !call || !JQUERY_ATTRIBUTE_METHODS.has(call.method)) {
+        return;
       }
 
-      if (
-        node.type === AST_NODE_TYPES.TemplateLiteral &&
-        node.expressions.length > 0
-      ) {
-        const firstQuasi = node.quasis[0];
-        if (firstQuasi && firstQuasi.value.raw.length > 0) {
-          if (/^[/\\]+$/.test(firstQuasi.value.raw)) {
-            return false;
-          }
-
-          return true;
+      for (const value of jquery.getUrlAttributeValues(node)) {
+        const type = getType(value);
+        if (type && !isStringLikeType(type)) {
+          continue;
         }
-        return false;
+
+        checkUrlValue(value);
+      }
+    }
+
+    function isUrlSearchParams(node: TSESTree.Node): boolean {
+      const type = getType(node);
+      if (type && hasTypeName(type, "URLSearchParams")) {
+        return true;
       }
 
       if (
-        node.type === AST_NODE_TYPES.BinaryExpression &&
-        node.operator === "+"
+        node.type === AST_NODE_TYPES.NewExpression &&
+        node.callee.type === AST_NODE_TYPES.Identifier &&
+        node.callee.name === "URLSearchParams"
       ) {
-        let leftmost = node.left;
-        while (
-          leftmost.type === AST_NODE_TYPES.BinaryExpression &&
-          leftmost.operator === "+"
-        ) {
-          leftmost = leftmost.left;
-        }
+        return true;
+      }
 
-        if (
-          leftmost.type === AST_NODE_TYPES.Literal &&
-          typeof leftmost.value === "string"
-        ) {
-          if (/^[/\\]+$/.test(leftmost.value)) {
-            return false;
-          }
-          return true;
-        }
+      if (node.type === AST_NODE_TYPES.MemberExpression) {
+        return getPropertyName(node) === "searchParams";
+      }
 
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        const variable = ASTUtils.findVariable(
+          context.sourceCode.getScope(node),
+          node
+        );
+        const def = variable?.defs[0];
         if (
-          leftmost.type === AST_NODE_TYPES.TemplateLiteral &&
-          leftmost.quasis.length === 1
+          def?.node.type === AST_NODE_TYPES.VariableDeclarator &&
+          def.node.init &&
+          def.node.id === def.name
         ) {
-          const value = leftmost.quasis[0]?.value.raw;
-          if (value && value.length > 0) {
-            if (/^[/\\]+$/.test(value)) {
-              return false;
-            }
-            return true;
-          }
+          return isUrlSearchParams(def.node.init);
         }
-
-        return false;
       }
 
+      return false;
+    }
+
+    function isWebStorage(node: TSESTree.Node): boolean {
       const type = getType(node);
-      if (type) {
-        if (isTrustedUrlType(type)) {
-          return true;
-        }
+      if (type && hasTypeName(type, "Storage")) {
+        return true;
+      }
 
-        if (type.isStringLiteral()) {
-          return true;
-        }
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return (
+          (node.name === "localStorage" || node.name === "sessionStorage") &&
+          isGlobalIdentifier(node, context.sourceCode)
+        );
       }
 
-      if (node.type === AST_NODE_TYPES.CallExpression) {
-        if (node.callee.type === AST_NODE_TYPES.Identifier) {
-          if (node.callee.name === "ensureTrustedUrl") {
-            return true;
-          }
-        }
+      if (node.type === AST_NODE_TYPES.MemberExpression) {
+        const propertyName = getPropertyName(node);
+        return (
+          (propertyName === "localStorage" ||
+            propertyName === "sessionStorage") &&
+          isRedirectObject(node.object) === "window"
+        );
       }
 
       return false;
     }
 
-    function isRedirectObject(
-      node: TSESTree.Expression
-    ): "location" | "navigation" | "window" | null {
-      const type = getType(node);
-      if (type) {
-        if (hasTypeName(type, "Location")) {
-          return "location";
-        }
-        if (hasTypeName(type, "Window")) {
-          return "window";
+    /**
+     * Checks if reading a property from an object yields attacker-controlled data
+     * Shared by member reads (location.search) and destructuring
+     * (const { search } = location)
+     */
+    function isBuiltinTaintMember(
+      object: TSESTree.Expression,
+      propertyName: string | null
+    ): boolean {
+      const objectType = isRedirectObject(object);
+
+      if (
+        (propertyName === "search" || propertyName === "hash") &&
+        objectType === "location"
+      ) {
+        return true;
+      }
+
+      if (propertyName === "referrer") {
+        return (
+          objectType === "window" ||
+          (object.type === AST_NODE_TYPES.Identifier &&
+            object.name === "document" &&
+            isGlobalIdentifier(object, context.sourceCode))
+        );
+      }
+
+      if (propertyName === "name") {
+        return objectType === "window";
+      }
+
+      if (propertyName === "data") {
+        const type = getType(object);
+        return !!type && hasTypeName(type, "MessageEvent");
+      }
+
+      return false;
+    }
+
+    /**
+     * Checks if a node directly reads from a built-in untrusted source, e.g.
+     * location.search, document.referrer or URLSearchParams#get
+     */
+    function isBuiltinTaintSource(node: TSESTree.Node): boolean {
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return (
+          node.name === "name" && isGlobalIdentifier(node, context.sourceCode)
+        );
+      }
+
+      if (node.type === AST_NODE_TYPES.MemberExpression) {
+        return isBuiltinTaintMember(node.object, getPropertyName(node));
+      }
+
+      if (node.type === AST_NODE_TYPES.CallExpression) {
+        const callee = unwrapChainExpression(node.callee);
+        if (callee.type !== AST_NODE_TYPES.MemberExpression) {
+          return false;
         }
-        if (hasTypeName(type, "typeof globalThis")) {
-          return "window";
+
+        const methodName = getPropertyName(callee);
+        if (methodName === "get" || methodName === "getAll") {
+          return isUrlSearchParams(callee.object);
         }
-        // for our purposes, "Document" is the same as window as it also provides a "location" prop
-        if (hasTypeName(type, "Document")) {
-          return "window";
+        if (methodName === "getItem") {
+          return isWebStorage(callee.object);
         }
       }
 
-      if (node.type === AST_NODE_TYPES.Identifier) {
-        const varInfo = trackedVariables.get(node.name);
-        if (varInfo) {
-          if (varInfo.isLocation) return "location";
-          if (varInfo.isNavigation) return "navigation";
-          if (varInfo.isWindow) return "window";
+      return false;
+    }
+
+    function isJsonParse(callee: TSESTree.MemberExpression): boolean {
+      return (
+        getPropertyName(callee) === "parse" &&
+        callee.object.type === AST_NODE_TYPES.Identifier &&
+        callee.object.name === "JSON" &&
+        isGlobalIdentifier(callee.object, context.sourceCode)
+      );
+    }
+
+    /**
+     * Gets the variable that a function is declared as or assigned to
+     */
+    function getFunctionVariable(
+      fn: TSESTree.Node
+    ): TSESLint.Scope.Variable | null {
+      if (fn.type === AST_NODE_TYPES.FunctionDeclaration && fn.id) {
+        return ASTUtils.findVariable(context.sourceCode.getScope(fn), fn.id);
+      }
+
+      if (
+        (fn.type === AST_NODE_TYPES.FunctionExpression ||
+          fn.type === AST_NODE_TYPES.ArrowFunctionExpression) &&
+        fn.parent.type === AST_NODE_TYPES.VariableDeclarator &&
+        fn.parent.init === fn &&
+        fn.parent.id.type === AST_NODE_TYPES.Identifier
+      ) {
+        return ASTUtils.findVariable(
+          context.sourceCode.getScope(fn.parent),
+          fn.parent.id
+        );
+      }
+
+      return null;
+    }
+
+    /**
+     * Checks if a parameter of a local function receives a tainted argument
+     * at any of the direct calls of the function in this file
+     */
+    function isTaintedParameter(
+      variable: TSESLint.Scope.Variable,
+      seen: Set<TSESLint.Scope.Variable>
+    ): boolean {
+      const def = variable.defs[0];
+      if (
+        def?.type !== TSESLint.Scope.DefinitionType.Parameter ||
+        !("params" in def.node)
+      ) {
+        return false;
+      }
+
+      const params: TSESTree.Node[] = def.node.params;
+      const index = params.indexOf(def.name);
+      const fn = getFunctionVariable(def.node);
+      if (index === -1 || !fn) {
+        return false;
+      }
+
+      return fn.references.some(({ identifier }) => {
+        const call = identifier.parent;
+        if (
+          call?.type !== AST_NODE_TYPES.CallExpression ||
+          call.callee !== identifier
+        ) {
+          return false;
         }
 
-        if (isGlobalIdentifier(node, context.sourceCode)) {
-          if (node.name === "location") {
-            return "location";
+        const args = call.arguments.slice(0, index + 1);
+        const spread = args.find(
+          (arg) => arg.type === AST_NODE_TYPES.SpreadElement
+        );
+        const arg = spread ?? args[index];
+        return !!arg && isTainted(arg, seen);
+      });
+    }
+
+    /**
+     * Checks if a value may carry data from an untrusted source
+     * Follows local variables (including all their assignments), parameters
+     * of local functions, string concatenation, template literals and methods
+     * called on tainted values
+     */
+    function isTainted(
+      node: TSESTree.Node,
+      seen = new Set<TSESLint.Scope.Variable>()
+    ): boolean {
+      switch (node.type) {
+        case AST_NODE_TYPES.ChainExpression:
+        case AST_NODE_TYPES.TSAsExpression:
+        case AST_NODE_TYPES.TSSatisfiesExpression:
+        case AST_NODE_TYPES.TSNonNullExpression:
+        case AST_NODE_TYPES.TSTypeAssertion:
+          return isTainted(node.expression, seen);
+
+        case AST_NODE_TYPES.AwaitExpression:
+          return isTainted(node.argument, seen);
+
+        case AST_NODE_TYPES.Identifier: {
+          const variable = ASTUtils.findVariable(
+            context.sourceCode.getScope(node),
+            node
+          );
+          if (!variable || variable.defs.length === 0) {
+            return isBuiltinTaintSource(node);
           }
-          if (node.name === "window") {
-            return "window";
+
+          if (seen.has(variable)) {
+            return false;
           }
-          if (node.name === "navigation") {
-            return "navigation";
+          seen.add(variable);
+
+          if (isTaintedParameter(variable, seen)) {
+            return true;
           }
+
+          return variable.references.some((reference) => {
+            if (!reference.writeExpr) {
+              return false;
+            }
+
+            const destructured =
+              reference.identifier.type === AST_NODE_TYPES.Identifier
+                ? getDestructuredProperty(reference.identifier)
+                : null;
+            return (
+              (!!destructured &&
+                isBuiltinTaintMember(
+                  destructured.object,
+                  destructured.property
+                )) ||
+              isTainted(reference.writeExpr, seen)
+            );
+          });
         }
-      }
 
-      if (node.type === AST_NODE_TYPES.MemberExpression) {
-        const { object, property } = node;
+        case AST_NODE_TYPES.MemberExpression:
+          return isBuiltinTaintSource(node) || isTainted(node.object, seen);
 
-        if (
-          object.type === AST_NODE_TYPES.Identifier &&
-          property.type === AST_NODE_TYPES.Identifier
-        ) {
-          const isGlobal = isGlobalIdentifier(object, context.sourceCode);
+        case AST_NODE_TYPES.CallExpression: {
+          if (isTrustedFunctionCall(node)) {
+            return false;
+          }
 
-          if (property.name === "location" && isGlobal) {
-            if (
-              object.name === "window" ||
-              object.name === "document" ||
-              object.name === "globalThis"
-            ) {
-              return "location";
+          const callee = unwrapChainExpression(node.callee);
+          if (
+            isBuiltinTaintSource(node) ||
+            sources.some((source) => matchesCallTarget(callee, source))
+          ) {
+            return true;
+          }
+
+          if (callee.type === AST_NODE_TYPES.MemberExpression) {
+            if (isJsonParse(callee)) {
+              return node.arguments.some((arg) => isTainted(arg, seen));
             }
+            return isTainted(callee.object, seen);
           }
 
           if (
-            object.name === "window" &&
-            property.name === "navigation" &&
-            isGlobal
+            callee.type === AST_NODE_TYPES.Identifier &&
+            TAINT_PASSTHROUGH_FUNCTIONS.has(callee.name) &&
+            isGlobalIdentifier(callee, context.sourceCode)
           ) {
-            return "navigation";
+            return node.arguments.some((arg) => isTainted(arg, seen));
           }
+
+          return false;
         }
 
-        const objectType = isRedirectObject(object);
-        if (
-          objectType === "window" &&
-          property.type === AST_NODE_TYPES.Identifier
-        ) {
-          if (property.name === "location") {
-            return "location";
-          }
-          if (property.name === "navigation") {
-            return "navigation";
-          }
+        case AST_NODE_TYPES.NewExpression:
+          return (
+            node.callee.type === AST_NODE_TYPES.Identifier &&
+            (node.callee.name === "URL" ||
+              node.callee.name === "URLSearchParams") &&
+            node.arguments.some((arg) => isTainted(arg, seen))
+          );
+
+        case AST_NODE_TYPES.SpreadElement:
+          return isTainted(node.argument, seen);
+
+        case AST_NODE_TYPES.TemplateLiteral:
+          return node.expressions.some((expr) => isTainted(expr, seen));
+
+        case AST_NODE_TYPES.BinaryExpression:
+          return (
+            (node.left.type !== AST_NODE_TYPES.PrivateIdentifier &&
+              isTainted(node.left, seen)) ||
+            isTainted(node.right, seen)
+          );
+
+        case AST_NODE_TYPES.LogicalExpression:
+          return isTainted(node.left, seen) || isTainted(node.right, seen);
+
+        case AST_NODE_TYPES.ConditionalExpression:
+          return (
+            isTainted(node.consequent, seen) || isTainted(node.alternate, seen)
+          );
+
+        case AST_NODE_TYPES.SequenceExpression: {
+          const last = node.expressions[node.expressions.length - 1];
+          return !!last && isTainted(last, seen);
         }
+
+        case AST_NODE_TYPES.AssignmentExpression:
+          return isTainted(node.right, seen);
+
+        case AST_NODE_TYPES.ArrayExpression:
+          return node.elements.some(
+            (element) => !!element && isTainted(element, seen)
+          );
+
+        default:
+          return false;
       }
+    }
 
-      return null;
+    /**
+     * Checks a value that is redirected to
+     * Statically known URLs that the URL policy (or `checkLiteralUrls`) doesn't
+     * allow are reported in both modes, other values if they are not safe
+     */
+    function checkUrlValue(node: TSESTree.Node) {
+      const details = getPolicyViolation
+        ? getStaticUrls(node)
+            .map(getPolicyViolation)
+            .find((violation) => violation !== null)
+        : undefined;
+
+      if (details) {
+        context.report({ node, messageId: "disallowedUrl", data: { details } });
+      } else if (!isValueSafe(node)) {
+        reportUnsafeRedirect(node);
+      }
     }
 
+    /**
+     * Reports an unsafe redirect value
+     * In taint mode, only values that carry data from an untrusted source are reported
+     */
     function reportUnsafeRedirect(node: TSESTree.Node) {
+      if (mode === "taint" && !isTainted(node)) {
+        return;
+      }
+
+      const wrapFix = getEnsureTrustedUrlFix(node);
+
       context.report({
         node,
         messageId: "unsafeRedirect",
+        suggest: [
+          ...(wrapFix
+            ? [{ messageId: "suggestEnsureTrustedUrl" as const, fix: wrapFix }]
+            : []),
+          ...(startsOnOwnLine(node)
+            ? [
+                {
+                  messageId: "suggestDisableComment" as const,
+                  fix: (fixer: TSESLint.RuleFixer) => {
+                    const { line } = node.loc.start;
+                    const indent = /^\s*/.exec(
+                      context.sourceCode.lines[line - 1] ?? ""
+                    )?.[0];
+                    const lineStart = context.sourceCode.getIndexFromLoc({
+                      line,
+                      column: 0,
+                    });
+
+                    return fixer.insertTextBeforeRange(
+                      [lineStart, lineStart],
+                      `${indent ?? ""}// eslint-disable-next-line ${
+                        context.id
+                      } -- <why this redirect is safe>\n`
+                    );
+                  },
+                },
+              ]
+            : []),
+        ],
       });
     }
 
-    function getCurrentWithObject():
-      | "location"
-      | "navigation"
-      | "window"
-      | null {
-      return withStack.length > 0
-        ? withStack[withStack.length - 1] ?? null
-        : null;
+    /**
+     * Checks if the line a node starts on begins outside of any token, so that
+     * a comment can be inserted before it. The line may instead start inside
+     * a template literal or block comment that spans several lines.
+     */
+    function startsOnOwnLine(node: TSESTree.Node): boolean {
+      const { line } = node.loc.start;
+      let token = context.sourceCode.getTokenBefore(node, {
+        includeComments: true,
+      });
+      while (token && token.loc.start.line === line) {
+        token = context.sourceCode.getTokenBefore(token, {
+          includeComments: true,
+        });
+      }
+
+      return !token || token.loc.end.line < line;
     }
 
-    function unwrapChainExpression(node: TSESTree.Node): TSESTree.Node {
-      if (node.type === AST_NODE_TYPES.ChainExpression) {
-        return node.expression;
+    /**
+     * Creates a fix that wraps the value in ensureTrustedUrl(...)
+     * Reuses an existing import of the runtime if there is one, otherwise adds
+     * or extends the import. Returns null if no import can be added safely
+     */
+    function getEnsureTrustedUrlFix(
+      node: TSESTree.Node
+    ): TSESLint.ReportFixFunction | null {
+      const { sourceCode } = context;
+      const imports = sourceCode.ast.body.filter(
+        (statement): statement is TSESTree.ImportDeclaration =>
+          statement.type === AST_NODE_TYPES.ImportDeclaration
+      );
+      const runtimeImports = imports.filter(({ source }) =>
+        DEFAULT_TRUSTED_FUNCTIONS.some(({ from }) => from === source.value)
+      );
+
+      let calleeText: string | null = null;
+      for (const { specifiers } of runtimeImports) {
+        for (const specifier of specifiers) {
+          if (
+            specifier.type === AST_NODE_TYPES.ImportSpecifier &&
+            specifier.importKind !== "type" &&
+            specifier.imported.type === AST_NODE_TYPES.Identifier &&
+            specifier.imported.name === "ensureTrustedUrl"
+          ) {
+            calleeText = specifier.local.name;
+          } else if (
+            specifier.type === AST_NODE_TYPES.ImportNamespaceSpecifier
+          ) {
+            calleeText = `${specifier.local.name}.ensureTrustedUrl`;
+          }
+        }
+      }
+
+      const valueText = sourceCode.getText(node);
+      const wrappedText = (callee: string) =>
+        node.type === AST_NODE_TYPES.SequenceExpression
+          ? `${callee}((${valueText}))`
+          : `${callee}(${valueText})`;
+
+      if (calleeText) {
+        const callee = calleeText;
+        return (fixer) => fixer.replaceText(node, wrappedText(callee));
+      }
+
+      if (
+        sourceCode.ast.sourceType !== "module" ||
+        ASTUtils.findVariable(sourceCode.getScope(node), "ensureTrustedUrl")
+          ?.defs.length
+      ) {
+        return null;
       }
-      return node;
+
+      const extendableImport = imports.find(
+        ({ source, specifiers, importKind }) =>
+          source.value === RUNTIME_MODULE &&
+          importKind !== "type" &&
+          specifiers.some(
+            (specifier) => specifier.type === AST_NODE_TYPES.ImportSpecifier
+          )
+      );
+      const lastImport = imports[imports.length - 1];
+
+      return (fixer) => {
+        const lastSpecifier =
+          extendableImport?.specifiers[extendableImport.specifiers.length - 1];
+        const importFix = lastSpecifier
+          ? fixer.insertTextAfter(lastSpecifier, ", ensureTrustedUrl")
+          : lastImport
+          ? fixer.insertTextAfter(
+              lastImport,
+              `\nimport { ensureTrustedUrl } from "${RUNTIME_MODULE}";`
+            )
+          : fixer.insertTextBeforeRange(
+              [0, 0],
+              `import { ensureTrustedUrl } from "${RUNTIME_MODULE}";\n`
+            );
+
+        return [
+          importFix,
+          fixer.replaceText(node, wrappedText("ensureTrustedUrl")),
+        ];
+      };
+    }
+
+    function getCurrentWithObject(): RedirectObjectType | null {
+      return withStack.length > 0
+        ? withStack[withStack.length - 1] ?? null
+        : null;
     }
 
     return {
+      Program(node) {
+        if (policyError) {
+          context.report({
+            node,
+            loc: { line: 1, column: 0 },
+            messageId: "invalidUrlPolicy",
+            data: { details: policyError },
+          });
+        }
+      },
+
       WithStatement(node) {
         const objectType = isRedirectObject(node.object);
         withStack.push(objectType);
@@ -312,17 +967,7 @@ export default createRule<Options, MessageIds>({
       },
 
       VariableDeclarator(node) {
-        if (node.id.type === AST_NODE_TYPES.Identifier && node.init) {
-          const objectType = isRedirectObject(node.init);
-          if (objectType) {
-            trackedVariables.set(node.id.name, {
-              node: node.id,
-              isLocation: objectType === "location",
-              isNavigation: objectType === "navigation",
-              isWindow: objectType === "window",
-            });
-          }
-        }
+        trackVariable(node);
       },
 
       AssignmentExpression(node) {
@@ -336,9 +981,7 @@ export default createRule<Options, MessageIds>({
           if (sinkType && property.type === AST_NODE_TYPES.Identifier) {
             const objectType = isRedirectObject(object);
             if (objectType === "location") {
-              if (!isValueSafe(right)) {
-                reportUnsafeRedirect(right);
-              }
+              checkUrlValue(right);
               return;
             }
           }
@@ -349,9 +992,7 @@ export default createRule<Options, MessageIds>({
           ) {
             const objectType = isRedirectObject(object);
             if (objectType === "window") {
-              if (!isValueSafe(right)) {
-                reportUnsafeRedirect(right);
-              }
+              checkUrlValue(right);
               return;
             }
 
@@ -360,9 +1001,7 @@ export default createRule<Options, MessageIds>({
               isGlobalIdentifier(object, context.sourceCode)
             ) {
               if (object.name === "document" || object.name === "globalThis") {
-                if (!isValueSafe(right)) {
-                  reportUnsafeRedirect(right);
-                }
+                checkUrlValue(right);
               }
             }
           }
@@ -370,9 +1009,7 @@ export default createRule<Options, MessageIds>({
           if (unwrappedLeft.computed) {
             const objectType = isRedirectObject(object);
             if (objectType === "location") {
-              if (!isValueSafe(right)) {
-                reportUnsafeRedirect(right);
-              }
+              checkUrlValue(right);
             }
           }
         }
@@ -380,9 +1017,7 @@ export default createRule<Options, MessageIds>({
         if (left.type === AST_NODE_TYPES.Identifier) {
           const objectType = isRedirectObject(left);
           if (objectType === "location") {
-            if (!isValueSafe(right)) {
-              reportUnsafeRedirect(right);
-            }
+            checkUrlValue(right);
             return;
           }
 
@@ -392,17 +1027,15 @@ export default createRule<Options, MessageIds>({
             if (leftType) {
               const typeName = checker?.typeToString(leftType);
               if (typeName === "string" || typeName?.includes("Location")) {
-                if (left.name === "href" && !isValueSafe(right)) {
-                  reportUnsafeRedirect(right);
+                if (left.name === "href") {
+                  checkUrlValue(right);
                   return;
                 }
               }
             }
 
             if (withinObject === "location" && left.name === "href") {
-              if (!isValueSafe(right)) {
-                reportUnsafeRedirect(right);
-              }
+              checkUrlValue(right);
             }
           }
         }
@@ -411,6 +1044,17 @@ export default createRule<Options, MessageIds>({
       CallExpression(node) {
         const { callee, arguments: args } = node;
 
+        const customSink = getCustomSink(node);
+        if (customSink) {
+          const urlArg = args[customSink.argument ?? 0];
+          if (urlArg) {
+            checkCustomSinkArgument(urlArg, customSink);
+          }
+          return;
+        }
+
+        checkJQueryCall(node);
+
         const openInfo = getOpenCallInfo(node);
         if (openInfo) {
           let isValidOpen = false;
@@ -427,8 +1071,8 @@ export default createRule<Options, MessageIds>({
 
           if (isValidOpen) {
             const urlArg = args[0];
-            if (urlArg && !isValueSafe(urlArg)) {
-              reportUnsafeRedirect(urlArg);
+            if (urlArg) {
+              checkUrlValue(urlArg);
             }
           }
           return;
@@ -443,8 +1087,8 @@ export default createRule<Options, MessageIds>({
             const objectType = isRedirectObject(unwrappedCallee.object);
             if (objectType === "location") {
               const urlArg = args[0];
-              if (urlArg && !isValueSafe(urlArg)) {
-                reportUnsafeRedirect(urlArg);
+              if (urlArg) {
+                checkUrlValue(urlArg);
               }
             }
           }
@@ -453,8 +1097,8 @@ export default createRule<Options, MessageIds>({
             const objectType = isRedirectObject(unwrappedCallee.object);
             if (objectType === "navigation") {
               const urlArg = args[0];
-              if (urlArg && !isValueSafe(urlArg)) {
-                reportUnsafeRedirect(urlArg);
+              if (urlArg) {
+                checkUrlValue(urlArg);
               }
             }
           }
@@ -465,8 +1109,8 @@ export default createRule<Options, MessageIds>({
           if (withinObject === "location") {
             if (callee.name === "replace" || callee.name === "assign") {
               const urlArg = args[0];
-              if (urlArg && !isValueSafe(urlArg)) {
-                reportUnsafeRedirect(urlArg);
+              if (urlArg) {
+                checkUrlValue(urlArg);
               }
             }
           }
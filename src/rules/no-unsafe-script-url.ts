@@ -0,0 +1,446 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getMemberPath,
+  getPropertyName,
+  getStaticStringValue,
+  getUrlScheme,
+  isGlobalIdentifier,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import {
+  createAnalysis,
+  RUNTIME_MODULE,
+  type TrustedFunction,
+} from "../utils/analysis.js";
+import { createUrlPolicyCheck, type StaticUrl } from "../utils/url-policy.js";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "unsafeScriptUrl" | "invalidAllowedOrigins";
+
+type Options = [
+  {
+    trustedFunctions?: TrustedFunction[];
+    allowedOrigins?: string[];
+    allowBlob?: boolean;
+    allowData?: boolean;
+  }
+];
+
+const DEFAULT_TRUSTED_SCRIPT_URL_FUNCTIONS: TrustedFunction[] = [
+  { from: RUNTIME_MODULE, name: "ensureTrustedScriptUrl" },
+  { from: "eslint-plugin-dom-security", name: "ensureTrustedScriptUrl" },
+];
+
+/**
+ * Global constructors that load a script from their first argument
+ */
+const WORKER_CONSTRUCTORS = new Set(["Worker", "SharedWorker"]);
+
+/**
+ * An `href` set on a link element, checked once the whole file has been seen
+ * because `rel` may be set after it
+ */
+interface LinkHref {
+  target: string | TSESLint.Scope.Variable;
+  value: TSESTree.Node;
+}
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-script-url",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow loading scripts and workers from untrusted URLs without validation",
+    },
+    messages: {
+      unsafeScriptUrl:
+        "Unsafe script URL passed to {{sink}}. Make sure the URL is safe by doing one of the following:\n" +
+        "1. Use ensureTrustedScriptUrl() provided by eslint-plugin-dom-security to validate the URL\n" +
+        "2. Use your own validator and cast the return type to TrustedScriptUrl\n" +
+        "3. Ignore this error with an explanation in a code comment attesting to the safety of the URL",
+      invalidAllowedOrigins:
+        "Invalid allowedOrigins option, only same-origin script URLs are allowed: {{details}}",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+          allowedOrigins: {
+            type: "array",
+            items: { type: "string" },
+          },
+          allowBlob: {
+            type: "boolean",
+          },
+          allowData: {
+            type: "boolean",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      trustedFunctions: [],
+      allowedOrigins: [],
+      allowBlob: false,
+      allowData: false,
+    },
+  ],
+
+  create(
+    context,
+    [
+      {
+        trustedFunctions = [],
+        allowedOrigins = [],
+        allowBlob = false,
+        allowData = false,
+      },
+    ]
+  ) {
+    // Invalid origin patterns are reported once instead of crashing the lint
+    // run, and no other origins are allowed
+    let getOriginViolation: (url: StaticUrl) => string | null;
+    let originsError: string | null = null;
+    try {
+      getOriginViolation = createUrlPolicyCheck({ allowedOrigins });
+    } catch (error) {
+      if (!(error instanceof TypeError)) {
+        throw error;
+      }
+      originsError = error.message;
+      getOriginViolation = createUrlPolicyCheck({});
+    }
+
+    /**
+     * Checks statically known script URLs like ensureTrustedScriptUrl: they
+     * have to be relative or come from an allowed origin, which has to be
+     * known from the start of the URL, and `blob:` and `data:` URLs are only
+     * allowed if opted in
+     */
+    function isSafeStaticUrl({ value, isComplete }: StaticUrl): boolean {
+      const scheme = getUrlScheme(value);
+      if (scheme === "data:") {
+        return allowData;
+      }
+
+      if (scheme === "blob:") {
+        const innerUrl = value.trimStart().slice(scheme.length);
+        return (
+          allowBlob &&
+          getUrlScheme(innerUrl) !== null &&
+          getOriginViolation({ value: innerUrl, isComplete }) === null
+        );
+      }
+
+      return getOriginViolation({ value, isComplete }) === null;
+    }
+
+    const {
+      getType,
+      hasTypeName,
+      isValueSafe,
+      isRedirectObject,
+      trackVariable,
+    } = createAnalysis(context, {
+      trustedFunctions,
+      brand: "TrustedScriptUrl",
+      defaultTrustedFunctions: DEFAULT_TRUSTED_SCRIPT_URL_FUNCTIONS,
+      isSafeStaticUrl,
+    });
+
+    const modulePreloadTargets: Array<string | TSESLint.Scope.Variable> = [];
+    const linkHrefs: LinkHref[] = [];
+
+    function hasElementType(node: TSESTree.Node, typeName: string): boolean {
+      const type = getType(node);
+      return type !== null && hasTypeName(type, typeName);
+    }
+
+    /**
+     * Identifies the element a property is set on, so that `rel` and `href`
+     * assignments to the same link can be matched up
+     */
+    function getTarget(
+      node: TSESTree.Node
+    ): string | TSESLint.Scope.Variable | null {
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return (
+          ASTUtils.findVariable(context.sourceCode.getScope(node), node) ??
+          node.name
+        );
+      }
+
+      return getMemberPath(node);
+    }
+
+    /**
+     * Checks if a global (e.g. `Worker`) is referenced directly or through
+     * a window: `window.Worker`, `self.importScripts`
+     */
+    function isGlobal(node: TSESTree.Node, names: Set<string>): string | null {
+      const expression = unwrapChainExpression(node);
+
+      if (expression.type === AST_NODE_TYPES.Identifier) {
+        return names.has(expression.name) &&
+          isGlobalIdentifier(expression, context.sourceCode)
+          ? expression.name
+          : null;
+      }
+
+      if (expression.type === AST_NODE_TYPES.MemberExpression) {
+        const propertyName = getPropertyName(expression);
+        if (
+          propertyName &&
+          names.has(propertyName) &&
+          isRedirectObject(expression.object) === "window"
+        ) {
+          return propertyName;
+        }
+      }
+
+      return null;
+    }
+
+    function isImportMetaUrl(node: TSESTree.Node): boolean {
+      return (
+        node.type === AST_NODE_TYPES.MemberExpression &&
+        node.object.type === AST_NODE_TYPES.MetaProperty &&
+        node.object.meta.name === "import" &&
+        getPropertyName(node) === "url"
+      );
+    }
+
+    /**
+     * Checks if a script URL is safe, including URL objects resolved against
+     * the module or page: `new URL("./worker.js", import.meta.url)` and its
+     * `href`
+     */
+    function isScriptUrlSafe(node: TSESTree.Node): boolean {
+      if (
+        node.type === AST_NODE_TYPES.MemberExpression &&
+        getPropertyName(node) === "href" &&
+        node.object.type === AST_NODE_TYPES.NewExpression
+      ) {
+        return isScriptUrlSafe(node.object);
+      }
+
+      if (
+        node.type === AST_NODE_TYPES.NewExpression &&
+        isGlobal(node.callee, new Set(["URL"]))
+      ) {
+        const [url, base] = node.arguments;
+        if (!url || !isValueSafe(url)) {
+          return false;
+        }
+
+        const staticBase = base
+          ? getStaticStringValue(base, context.sourceCode)
+          : null;
+        return (
+          !base ||
+          isImportMetaUrl(base) ||
+          (staticBase !== null &&
+            isSafeStaticUrl({ value: staticBase, isComplete: true })) ||
+          (base.type === AST_NODE_TYPES.MemberExpression &&
+            isRedirectObject(base.object) === "location")
+        );
+      }
+
+      return isValueSafe(node);
+    }
+
+    function checkScriptUrl(node: TSESTree.Node, sink: string) {
+      if (!isScriptUrlSafe(node)) {
+        context.report({
+          node,
+          messageId: "unsafeScriptUrl",
+          data: { sink },
+        });
+      }
+    }
+
+    /**
+     * Checks if a member expression is `navigator.serviceWorker`
+     */
+    function isServiceWorkerContainer(node: TSESTree.Node): boolean {
+      if (hasElementType(node, "ServiceWorkerContainer")) {
+        return true;
+      }
+
+      const expression = unwrapChainExpression(node);
+      if (
+        expression.type !== AST_NODE_TYPES.MemberExpression ||
+        getPropertyName(expression) !== "serviceWorker"
+      ) {
+        return false;
+      }
+
+      const navigator = expression.object;
+      return (
+        (navigator.type === AST_NODE_TYPES.Identifier &&
+          navigator.name === "navigator" &&
+          isGlobalIdentifier(navigator, context.sourceCode)) ||
+        (navigator.type === AST_NODE_TYPES.MemberExpression &&
+          getPropertyName(navigator) === "navigator" &&
+          isRedirectObject(navigator.object) === "window")
+      );
+    }
+
+    /**
+     * Records `rel` values and `href`s set on link elements
+     */
+    function handleLinkProperty(
+      element: TSESTree.Node,
+      name: string,
+      value: TSESTree.Node
+    ) {
+      if (!hasElementType(element, "HTMLLinkElement")) {
+        return;
+      }
+
+      const target = getTarget(element);
+      if (!target) {
+        return;
+      }
+
+      if (name === "rel") {
+        const rel = getStaticStringValue(value, context.sourceCode);
+        if (
+          rel === null ||
+          rel.toLowerCase().split(/\s+/).includes("modulepreload")
+        ) {
+          modulePreloadTargets.push(target);
+        }
+      } else if (name === "href") {
+        linkHrefs.push({ target, value });
+      }
+    }
+
+    return {
+      Program(node) {
+        if (originsError) {
+          context.report({
+            node,
+            loc: { line: 1, column: 0 },
+            messageId: "invalidAllowedOrigins",
+            data: { details: originsError },
+          });
+        }
+      },
+
+      VariableDeclarator(node) {
+        trackVariable(node);
+      },
+
+      AssignmentExpression(node) {
+        const left = unwrapChainExpression(node.left);
+        if (left.type !== AST_NODE_TYPES.MemberExpression) {
+          return;
+        }
+
+        const propertyName = getPropertyName(left);
+        if (
+          propertyName === "src" &&
+          hasElementType(left.object, "HTMLScriptElement")
+        ) {
+          checkScriptUrl(node.right, "HTMLScriptElement#src");
+          return;
+        }
+
+        if (propertyName) {
+          handleLinkProperty(left.object, propertyName, node.right);
+        }
+      },
+
+      ImportExpression(node) {
+        checkScriptUrl(node.source, "import()");
+      },
+
+      NewExpression(node) {
+        const name = isGlobal(node.callee, WORKER_CONSTRUCTORS);
+        const [url] = node.arguments;
+        if (name && url) {
+          checkScriptUrl(url, `new ${name}()`);
+        }
+      },
+
+      CallExpression(node) {
+        const callee = unwrapChainExpression(node.callee);
+
+        if (isGlobal(callee, new Set(["importScripts"]))) {
+          for (const url of node.arguments) {
+            checkScriptUrl(url, "importScripts()");
+          }
+          return;
+        }
+
+        if (callee.type !== AST_NODE_TYPES.MemberExpression) {
+          return;
+        }
+
+        const methodName = getPropertyName(callee);
+        const [first, second] = node.arguments;
+
+        if (
+          methodName === "register" &&
+          first &&
+          isServiceWorkerContainer(callee.object)
+        ) {
+          checkScriptUrl(first, "navigator.serviceWorker.register()");
+          return;
+        }
+
+        if (methodName === "setAttribute" && first && second) {
+          const name = getStaticStringValue(
+            first,
+            context.sourceCode
+          )?.toLowerCase();
+
+          if (
+            name === "src" &&
+            hasElementType(callee.object, "HTMLScriptElement")
+          ) {
+            checkScriptUrl(second, 'HTMLScriptElement#setAttribute("src")');
+          } else if (name) {
+            handleLinkProperty(callee.object, name, second);
+          }
+        }
+      },
+
+      "Program:exit"() {
+        for (const { target, value } of linkHrefs) {
+          if (modulePreloadTargets.includes(target)) {
+            checkScriptUrl(value, '<link rel="modulepreload">');
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,358 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getMemberPath,
+  getPropertyName,
+  getStaticStringValue,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import { createAnalysis, type TrustedFunction } from "../utils/analysis.js";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "unsafeUrlAttribute" | "unsafeMetaRefresh";
+
+type Options = [
+  {
+    trustedFunctions?: TrustedFunction[];
+    allowedSchemes?: string[];
+  }
+];
+
+/**
+ * URL-bearing properties and the element types they are checked on
+ */
+const URL_PROPERTIES: Record<string, string[]> = {
+  href: ["HTMLAnchorElement", "HTMLAreaElement"],
+  src: ["HTMLIFrameElement", "HTMLEmbedElement"],
+  action: ["HTMLFormElement"],
+  formAction: ["HTMLButtonElement"],
+  data: ["HTMLObjectElement"],
+};
+
+/**
+ * URL-bearing attributes (lowercase) and the element types they are checked on
+ */
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  href: ["HTMLAnchorElement", "HTMLAreaElement"],
+  src: ["HTMLIFrameElement", "HTMLEmbedElement"],
+  action: ["HTMLFormElement"],
+  formaction: ["HTMLButtonElement"],
+  data: ["HTMLObjectElement"],
+};
+
+/**
+ * The delay and separator of a refresh directive, up to where the URL starts
+ * E.g., "0; url='" in "0; url='/home'"
+ */
+const REFRESH_PREFIX = /^\s*[\d.]+\s*[;,]?\s*(?:url\s*=\s*)?['"]?/i;
+
+/**
+ * A `content` value set on a meta element, checked once the whole file has been
+ * seen because `httpEquiv` may be set after it
+ */
+interface MetaContent {
+  target: string | TSESLint.Scope.Variable;
+  value: TSESTree.Node;
+}
+
+export default createRule<Options, MessageIds>({
+  name: "no-unsafe-url-attribute",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow untrusted URLs in links, forms, frames and other URL-bearing element properties",
+    },
+    messages: {
+      unsafeUrlAttribute:
+        "Unsafe URL assigned to {{sink}}. Make sure the URL is safe by doing one of the following:\n" +
+        "1. Use ensureTrustedUrl() provided by eslint-plugin-dom-security to validate the URL\n" +
+        "2. Use your own validator and cast the return type to TrustedUrl\n" +
+        "3. Ignore this error with an explanation in a code comment attesting to the safety of the URL",
+      unsafeMetaRefresh:
+        "Unsafe URL in a meta refresh. Build the content from a literal prefix and a URL validated with ensureTrustedUrl()",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          trustedFunctions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+          allowedSchemes: {
+            type: "array",
+            items: { type: "string", pattern: "^[a-zA-Z][a-zA-Z0-9+.-]*:$" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      trustedFunctions: [],
+    },
+  ],
+
+  create(context, [{ trustedFunctions = [], allowedSchemes }]) {
+    const {
+      getType,
+      hasTypeName,
+      isStringLikeType,
+      isSafeUrlString,
+      isValueSafe,
+    } = createAnalysis(context, { trustedFunctions, allowedSchemes });
+
+    const refreshTargets: Array<string | TSESLint.Scope.Variable> = [];
+    const metaContents: MetaContent[] = [];
+
+    /**
+     * Gets the element type name of the object if it is one of the given types
+     */
+    function getElementType(
+      node: TSESTree.Node,
+      typeNames: string[]
+    ): string | null {
+      const type = getType(node);
+      if (!type) {
+        return null;
+      }
+
+      return typeNames.find((typeName) => hasTypeName(type, typeName)) ?? null;
+    }
+
+    /**
+     * Identifies the element a meta property is set on, so that `httpEquiv`
+     * and `content` assignments to the same element can be matched up
+     */
+    function getTarget(
+      node: TSESTree.Node
+    ): string | TSESLint.Scope.Variable | null {
+      if (node.type === AST_NODE_TYPES.Identifier) {
+        return (
+          ASTUtils.findVariable(context.sourceCode.getScope(node), node) ??
+          node.name
+        );
+      }
+
+      return getMemberPath(node);
+    }
+
+    /**
+     * Flattens a template literal or `+` concatenation into its parts, with
+     * statically known parts resolved to strings
+     */
+    function getParts(node: TSESTree.Node): Array<string | TSESTree.Node> {
+      const staticValue = getStaticStringValue(node, context.sourceCode);
+      if (staticValue !== null) {
+        return [staticValue];
+      }
+
+      if (node.type === AST_NODE_TYPES.TemplateLiteral) {
+        return node.quasis.flatMap((quasi, i) => {
+          const expression = node.expressions[i];
+          const text = quasi.value.cooked ?? quasi.value.raw;
+          return expression ? [text, ...getParts(expression)] : [text];
+        });
+      }
+
+      if (
+        node.type === AST_NODE_TYPES.BinaryExpression &&
+        node.operator === "+"
+      ) {
+        return [...getParts(node.left), ...getParts(node.right)];
+      }
+
+      return [node];
+    }
+
+    /**
+     * Checks if the URL of a refresh directive (e.g. "0; url=/home") is safe
+     * Non-string values such as the delay may be dynamic, but the URL has to
+     * start with a safe literal or be a safe value itself
+     */
+    function isRefreshContentSafe(node: TSESTree.Node): boolean {
+      switch (node.type) {
+        case AST_NODE_TYPES.ConditionalExpression:
+          return (
+            isRefreshContentSafe(node.consequent) &&
+            isRefreshContentSafe(node.alternate)
+          );
+
+        case AST_NODE_TYPES.LogicalExpression:
+          return (
+            isRefreshContentSafe(node.left) && isRefreshContentSafe(node.right)
+          );
+
+        case AST_NODE_TYPES.TSAsExpression:
+        case AST_NODE_TYPES.TSNonNullExpression:
+          return isRefreshContentSafe(node.expression);
+      }
+
+      let text = "";
+      for (const part of getParts(node)) {
+        if (typeof part === "string") {
+          text += part;
+          continue;
+        }
+
+        const type = getType(part);
+        if (type && !isStringLikeType(type)) {
+          // numbers and other non-string values can't contain a URL
+          text += "0";
+          continue;
+        }
+
+        const prefix = REFRESH_PREFIX.exec(text);
+        if (!prefix) {
+          return false;
+        }
+
+        const urlStart = text.slice(prefix[0].length);
+        if (!urlStart) {
+          return isValueSafe(part);
+        }
+
+        return !/^[/\\]+$/.test(urlStart) && isSafeUrlString(urlStart);
+      }
+
+      const prefix = REFRESH_PREFIX.exec(text);
+      const url = prefix ? text.slice(prefix[0].length) : "";
+      return !url || isSafeUrlString(url);
+    }
+
+    function checkUrlValue(
+      value: TSESTree.Node,
+      elementType: string,
+      sink: string
+    ) {
+      if (!isValueSafe(value)) {
+        context.report({
+          node: value,
+          messageId: "unsafeUrlAttribute",
+          data: { sink: `${elementType}#${sink}` },
+        });
+      }
+    }
+
+    /**
+     * Records the `httpEquiv` and `content` values set on meta elements
+     */
+    function handleMetaProperty(
+      element: TSESTree.Node,
+      name: string,
+      value: TSESTree.Node
+    ) {
+      if (!getElementType(element, ["HTMLMetaElement"])) {
+        return;
+      }
+
+      const target = getTarget(element);
+      if (!target) {
+        return;
+      }
+
+      if (name === "http-equiv" || name === "httpequiv") {
+        const staticValue = getStaticStringValue(value, context.sourceCode);
+        if (staticValue === null || staticValue.toLowerCase() === "refresh") {
+          refreshTargets.push(target);
+        }
+      } else if (name === "content") {
+        metaContents.push({ target, value });
+      }
+    }
+
+    return {
+      AssignmentExpression(node) {
+        const left = unwrapChainExpression(node.left);
+        if (left.type !== AST_NODE_TYPES.MemberExpression) {
+          return;
+        }
+
+        const propertyName = getPropertyName(left);
+        if (!propertyName) {
+          return;
+        }
+
+        const elementTypes = Object.hasOwn(URL_PROPERTIES, propertyName)
+          ? URL_PROPERTIES[propertyName]
+          : undefined;
+        if (elementTypes) {
+          const elementType = getElementType(left.object, elementTypes);
+          if (elementType) {
+            checkUrlValue(node.right, elementType, propertyName);
+            return;
+          }
+        }
+
+        handleMetaProperty(left.object, propertyName.toLowerCase(), node.right);
+      },
+
+      CallExpression(node) {
+        const callee = unwrapChainExpression(node.callee);
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          getPropertyName(callee) !== "setAttribute"
+        ) {
+          return;
+        }
+
+        const [nameArg, value] = node.arguments;
+        if (!nameArg || !value || value.type === AST_NODE_TYPES.SpreadElement) {
+          return;
+        }
+
+        const name = getStaticStringValue(
+          nameArg,
+          context.sourceCode
+        )?.toLowerCase();
+        if (!name) {
+          return;
+        }
+
+        const elementTypes = Object.hasOwn(URL_ATTRIBUTES, name)
+          ? URL_ATTRIBUTES[name]
+          : undefined;
+        if (elementTypes) {
+          const elementType = getElementType(callee.object, elementTypes);
+          if (elementType) {
+            checkUrlValue(value, elementType, `setAttribute("${name}")`);
+            return;
+          }
+        }
+
+        handleMetaProperty(callee.object, name, value);
+      },
+
+      "Program:exit"() {
+        for (const { target, value } of metaContents) {
+          if (refreshTargets.includes(target) && !isRefreshContentSafe(value)) {
+            context.report({
+              node: value,
+              messageId: "unsafeMetaRefresh",
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,526 @@
+import {
+  AST_NODE_TYPES,
+  AST_TOKEN_TYPES,
+  ASTUtils,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import {
+  getPropertyName,
+  getStaticStringValue,
+  isGlobalIdentifier,
+  unwrapChainExpression,
+} from "../utils/index.js";
+import { createAnalysis, type TrustedFunction } from "../utils/analysis.js";
+
+const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/jolle/eslint-plugin-dom-security?tab=readme-ov-file#${name}`
+);
+
+type MessageIds = "missingOriginCheck" | "weakOriginCheck";
+
+type Options = [
+  {
+    validators?: TrustedFunction[];
+  }
+];
+
+type FunctionNode =
+  | TSESTree.ArrowFunctionExpression
+  | TSESTree.FunctionExpression
+  | TSESTree.FunctionDeclaration;
+
+/**
+ * String methods that match parts of the origin, so that e.g.
+ * `https://example.com.evil.com` passes `origin.includes("example.com")`
+ */
+const WEAK_CHECK_METHODS = new Set([
+  "includes",
+  "indexOf",
+  "lastIndexOf",
+  "startsWith",
+  "endsWith",
+  "match",
+  "search",
+]);
+
+const EQUALITY_OPERATORS = new Set(["===", "!==", "==", "!="]);
+
+/**
+ * How the message of a handler is used: where `data` is read and where the
+ * sender (`origin` or `source`) is checked
+ */
+interface MessageUsage {
+  dataReads: TSESTree.Node[];
+  checks: TSESTree.Node[];
+  weakChecks: Array<{ node: TSESTree.Node; method: string }>;
+}
+
+export default createRule<Options, MessageIds>({
+  name: "require-message-origin-check",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Require message event listeners to check the origin of a message before using its data",
+    },
+    messages: {
+      missingOriginCheck:
+        "Message data is used before event.origin or event.source is checked. Any window can send messages to this listener, so compare the origin to the expected origins first",
+      weakOriginCheck:
+        "Message data is used after checking event.origin with {{method}}(), which also matches other origins such as https://example.com.evil.com. Compare the origin to the expected origins exactly",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          validators: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                name: { type: "string" },
+              },
+              required: ["from", "name"],
+              additionalProperties: false,
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  defaultOptions: [
+    {
+      validators: [],
+    },
+  ],
+
+  create(context, [{ validators = [] }]) {
+    const {
+      getGlobalType,
+      hasTypeName,
+      isRedirectObject,
+      isTrustedFunctionCall,
+      trackVariable,
+    } = createAnalysis(context, {
+      trustedFunctions: validators,
+      defaultTrustedFunctions: [],
+    });
+
+    let isDedicatedWorker: boolean | undefined;
+
+    /**
+     * Checks if the file runs in a dedicated worker, where messages come from
+     * the page that created the worker and `event.origin` is always empty:
+     * `self` is a DedicatedWorkerGlobalScope or the WorkerGlobalScope of the
+     * "webworker" lib, or the file references that lib
+     */
+    function isDedicatedWorkerFile(): boolean {
+      if (isDedicatedWorker === undefined) {
+        const selfType = getGlobalType("self");
+        if (
+          selfType &&
+          (hasTypeName(selfType, "ServiceWorkerGlobalScope") ||
+            hasTypeName(selfType, "SharedWorkerGlobalScope"))
+        ) {
+          isDedicatedWorker = false;
+        } else if (
+          selfType &&
+          (hasTypeName(selfType, "DedicatedWorkerGlobalScope") ||
+            hasTypeName(selfType, "WorkerGlobalScope"))
+        ) {
+          isDedicatedWorker = true;
+        } else {
+          isDedicatedWorker = context.sourceCode
+            .getAllComments()
+            .some(
+              ({ type, value }) =>
+                type === AST_TOKEN_TYPES.Line &&
+                /^\/\s*<reference\s+lib=["']webworker["']/.test(value)
+            );
+        }
+      }
+
+      return isDedicatedWorker;
+    }
+
+    /**
+     * Resolves a handler to its function, following references to function
+     * declarations and const function expressions
+     */
+    function getHandlerFunction(node: TSESTree.Node): FunctionNode | null {
+      if (
+        node.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+        node.type === AST_NODE_TYPES.FunctionExpression
+      ) {
+        return node;
+      }
+
+      if (node.type !== AST_NODE_TYPES.Identifier) {
+        return null;
+      }
+
+      const variable = ASTUtils.findVariable(
+        context.sourceCode.getScope(node),
+        node
+      );
+      const def = variable?.defs.length === 1 ? variable.defs[0] : undefined;
+
+      if (def?.type === TSESLint.Scope.DefinitionType.FunctionName) {
+        return def.node.type === AST_NODE_TYPES.FunctionDeclaration
+          ? def.node
+          : null;
+      }
+
+      if (
+        def?.type === TSESLint.Scope.DefinitionType.Variable &&
+        def.parent.kind === "const" &&
+        def.node.init
+      ) {
+        const { init } = def.node;
+        if (
+          init.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+          init.type === AST_NODE_TYPES.FunctionExpression
+        ) {
+          return init;
+        }
+      }
+
+      return null;
+    }
+
+    /**
+     * Gets the places where the value of a binding is read
+     */
+    function getReads(variable: TSESLint.Scope.Variable): TSESTree.Node[] {
+      return variable.references
+        .filter((reference) => reference.isRead())
+        .map((reference) => reference.identifier);
+    }
+
+    /**
+     * Records a read of `data`, `origin` or `source`. Reads that are stored
+     * in a variable are followed to where the variable is used.
+     */
+    function addUse(
+      usage: MessageUsage,
+      property: string,
+      node: TSESTree.Node
+    ) {
+      const { parent } = node;
+      if (
+        parent?.type === AST_NODE_TYPES.VariableDeclarator &&
+        parent.init === node &&
+        parent.id.type === AST_NODE_TYPES.Identifier
+      ) {
+        const variable = ASTUtils.findVariable(
+          context.sourceCode.getScope(parent),
+          parent.id
+        );
+        for (const read of variable ? getReads(variable) : []) {
+          addUse(usage, property, read);
+        }
+        return;
+      }
+
+      if (property === "data") {
+        usage.dataReads.push(node);
+        return;
+      }
+
+      addCheck(usage, property, node);
+    }
+
+    /**
+     * Checks if the result of a check decides whether the code after it runs:
+     * an `if` or conditional test (including early returns), the left side of
+     * `&&`/`||`, or a variable that is used in one of those
+     */
+    function controlsFlow(node: TSESTree.Node): boolean {
+      const { parent } = node;
+
+      switch (parent?.type) {
+        case AST_NODE_TYPES.UnaryExpression:
+          return parent.operator === "!" && controlsFlow(parent);
+
+        case AST_NODE_TYPES.TSNonNullExpression:
+        case AST_NODE_TYPES.TSAsExpression:
+          return controlsFlow(parent);
+
+        case AST_NODE_TYPES.LogicalExpression:
+          return parent.left === node || controlsFlow(parent);
+
+        case AST_NODE_TYPES.IfStatement:
+        case AST_NODE_TYPES.ConditionalExpression:
+          return parent.test === node;
+
+        case AST_NODE_TYPES.VariableDeclarator: {
+          if (
+            parent.init !== node ||
+            parent.id.type !== AST_NODE_TYPES.Identifier
+          ) {
+            return false;
+          }
+
+          const variable = ASTUtils.findVariable(
+            context.sourceCode.getScope(parent),
+            parent.id
+          );
+          return !!variable && getReads(variable).some(controlsFlow);
+        }
+
+        default:
+          return false;
+      }
+    }
+
+    /**
+     * Classifies how the origin or source is used: compared (`===`, `switch`)
+     * or passed to a function (allowlists and validators) in a way that
+     * decides whether the data is used, or only partially matched with a
+     * string method. Configured validators count wherever they are called,
+     * since they throw for other origins
+     */
+    function addCheck(
+      usage: MessageUsage,
+      property: string,
+      node: TSESTree.Node
+    ) {
+      let current = node;
+      while (
+        current.parent?.type === AST_NODE_TYPES.TSNonNullExpression ||
+        current.parent?.type === AST_NODE_TYPES.TSAsExpression
+      ) {
+        current = current.parent;
+      }
+      const { parent } = current;
+
+      if (
+        (parent?.type === AST_NODE_TYPES.SwitchStatement &&
+          parent.discriminant === current) ||
+        (parent?.type === AST_NODE_TYPES.CallExpression &&
+          parent.arguments.includes(
+            current as TSESTree.CallExpressionArgument
+          ) &&
+          (isTrustedFunctionCall(parent) || controlsFlow(parent))) ||
+        (parent?.type === AST_NODE_TYPES.BinaryExpression &&
+          EQUALITY_OPERATORS.has(parent.operator) &&
+          controlsFlow(parent))
+      ) {
+        usage.checks.push(current);
+        return;
+      }
+
+      if (
+        property === "origin" &&
+        parent?.type === AST_NODE_TYPES.MemberExpression &&
+        parent.object === current
+      ) {
+        const method = getPropertyName(parent);
+        if (method && WEAK_CHECK_METHODS.has(method)) {
+          usage.weakChecks.push({ node: parent, method });
+        }
+      }
+    }
+
+    /**
+     * Records the properties destructured from the event, e.g.
+     * `({ data, origin }) => ...` or `const { data } = event`
+     */
+    function addPatternUses(usage: MessageUsage, pattern: TSESTree.Node) {
+      if (pattern.type !== AST_NODE_TYPES.ObjectPattern) {
+        return;
+      }
+
+      for (const property of pattern.properties) {
+        if (property.type !== AST_NODE_TYPES.Property) {
+          continue;
+        }
+
+        const name =
+          property.key.type === AST_NODE_TYPES.Identifier && !property.computed
+            ? property.key.name
+            : getStaticStringValue(property.key, context.sourceCode);
+        if (name !== "data" && name !== "origin" && name !== "source") {
+          continue;
+        }
+
+        const value =
+          property.value.type === AST_NODE_TYPES.AssignmentPattern
+            ? property.value.left
+            : property.value;
+
+        if (name === "data" && value.type === AST_NODE_TYPES.ObjectPattern) {
+          // `{ data: { type } }` reads the data right away
+          usage.dataReads.push(value);
+          continue;
+        }
+
+        if (value.type !== AST_NODE_TYPES.Identifier) {
+          continue;
+        }
+
+        const variable = ASTUtils.findVariable(
+          context.sourceCode.getScope(value),
+          value
+        );
+        for (const read of variable ? getReads(variable) : []) {
+          addUse(usage, name, read);
+        }
+      }
+    }
+
+    function getMessageUsage(handler: FunctionNode): MessageUsage {
+      const usage: MessageUsage = { dataReads: [], checks: [], weakChecks: [] };
+
+      const [param] = handler.params;
+      if (!param) {
+        return usage;
+      }
+
+      if (param.type === AST_NODE_TYPES.ObjectPattern) {
+        addPatternUses(usage, param);
+        return usage;
+      }
+
+      const eventParam =
+        param.type === AST_NODE_TYPES.AssignmentPattern ? param.left : param;
+      if (eventParam.type !== AST_NODE_TYPES.Identifier) {
+        return usage;
+      }
+
+      const variable = context.sourceCode
+        .getDeclaredVariables(handler)
+        .find(({ name }) => name === eventParam.name);
+
+      for (const read of variable ? getReads(variable) : []) {
+        const { parent } = read;
+
+        if (
+          parent?.type === AST_NODE_TYPES.MemberExpression &&
+          parent.object === read
+        ) {
+          const property = getPropertyName(parent);
+          if (
+            property === "data" ||
+            property === "origin" ||
+            property === "source"
+          ) {
+            addUse(usage, property, parent);
+          }
+        } else if (
+          parent?.type === AST_NODE_TYPES.VariableDeclarator &&
+          parent.init === read
+        ) {
+          addPatternUses(usage, parent.id);
+        }
+      }
+
+      return usage;
+    }
+
+    function checkHandler(node: TSESTree.Node) {
+      const handler = getHandlerFunction(node);
+      if (!handler) {
+        return;
+      }
+
+      const usage = getMessageUsage(handler);
+      const firstCheck = Math.min(
+        ...usage.checks.map((check) => check.range[0])
+      );
+
+      const uncheckedRead = usage.dataReads
+        .filter((read) => read.range[0] < firstCheck)
+        .sort((a, b) => a.range[0] - b.range[0])[0];
+      if (!uncheckedRead) {
+        return;
+      }
+
+      const weakCheck = usage.weakChecks.find(
+        (check) => check.node.range[0] < uncheckedRead.range[0]
+      );
+
+      if (weakCheck) {
+        context.report({
+          node: uncheckedRead,
+          messageId: "weakOriginCheck",
+          data: { method: weakCheck.method },
+        });
+      } else {
+        context.report({
+          node: uncheckedRead,
+          messageId: "missingOriginCheck",
+        });
+      }
+    }
+
+    /**
+     * Checks if a message target is a window. In a dedicated worker, `self`
+     * is the worker's global scope instead.
+     */
+    function isWindow(node: TSESTree.Expression): boolean {
+      if (
+        node.type === AST_NODE_TYPES.Identifier &&
+        node.name === "self" &&
+        isGlobalIdentifier(node, context.sourceCode) &&
+        isDedicatedWorkerFile()
+      ) {
+        return false;
+      }
+
+      return isRedirectObject(node) === "window";
+    }
+
+    return {
+      VariableDeclarator(node) {
+        trackVariable(node);
+      },
+
+      CallExpression(node) {
+        const callee = unwrapChainExpression(node.callee);
+        const isAddEventListener =
+          (callee.type === AST_NODE_TYPES.MemberExpression &&
+            getPropertyName(callee) === "addEventListener" &&
+            isWindow(callee.object)) ||
+          (callee.type === AST_NODE_TYPES.Identifier &&
+            callee.name === "addEventListener" &&
+            isGlobalIdentifier(callee, context.sourceCode) &&
+            !isDedicatedWorkerFile());
+        if (!isAddEventListener) {
+          return;
+        }
+
+        const [type, handler] = node.arguments;
+        if (
+          type &&
+          handler &&
+          getStaticStringValue(type, context.sourceCode) === "message"
+        ) {
+          checkHandler(handler);
+        }
+      },
+
+      AssignmentExpression(node) {
+        const left = unwrapChainExpression(node.left);
+        const isOnMessage =
+          (left.type === AST_NODE_TYPES.MemberExpression &&
+            getPropertyName(left) === "onmessage" &&
+            isWindow(left.object)) ||
+          (left.type === AST_NODE_TYPES.Identifier &&
+            left.name === "onmessage" &&
+            isGlobalIdentifier(left, context.sourceCode) &&
+            !isDedicatedWorkerFile());
+
+        if (isOnMessage) {
+          checkHandler(node.right);
+        }
+      },
+    };
+  },
+});
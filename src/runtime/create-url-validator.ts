@@ -0,0 +1,129 @@
+import {
+  compileUrlOptions,
+  validateUrl,
+  type EnsureTrustedUrlOptions,
+  type TrustedUrl,
+} from "./ensure-trusted-url.js";
+import type { PathPattern, PathRule } from "./url-patterns.js";
+import { UntrustedUrlError } from "./untrusted-url-error.js";
+
+/**
+ * URL validation functions bound to a set of options
+ */
+export interface UrlValidator {
+  /**
+   * A frozen copy of the options the validator was created with
+   */
+  readonly options: Readonly<EnsureTrustedUrlOptions>;
+
+  /**
+   * Validates a URL like ensureTrustedUrl
+   * @throws {UntrustedUrlError} If the URL is invalid or unsafe
+   */
+  readonly ensure: (url: string | URL) => TrustedUrl;
+
+  /**
+   * Checks if a URL is trusted without throwing, like isTrustedUrl
+   */
+  readonly is: {
+    <T extends string>(url: T): url is TrustedUrl<T>;
+    (url: URL): boolean;
+  };
+
+  /**
+   * Parses a URL if it is trusted
+   * @returns The parsed URL, or null if it is untrusted
+   */
+  readonly tryParse: (url: string | URL) => URL | null;
+}
+
+function freeze<T>(list: readonly T[] | undefined): readonly T[] | undefined {
+  return list && Object.freeze([...list]);
+}
+
+function freezePathRule(rule: PathRule): PathRule {
+  return Object.freeze({
+    ...rule,
+    allowedPaths: freeze<PathPattern>(rule.allowedPaths),
+    deniedPaths: freeze<PathPattern>(rule.deniedPaths),
+  });
+}
+
+/**
+ * Creates a frozen copy of the options, including their lists and path rules
+ */
+export function freezeUrlOptions<T extends EnsureTrustedUrlOptions>(
+  options: T
+): Readonly<T> {
+  return Object.freeze({
+    ...options,
+    allowedProtocols: freeze(options.allowedProtocols),
+    allowedOrigins: freeze(options.allowedOrigins),
+    allowedPaths: freeze(options.allowedPaths),
+    deniedPaths: freeze(options.deniedPaths),
+    pathRules: freeze(options.pathRules?.map(freezePathRule)),
+  });
+}
+
+/**
+ * Creates URL validation functions with options that are checked and compiled
+ * once, instead of on every call
+ * `ensure` returns a `TrustedUrl`, so the lint rules accept its results like
+ * those of ensureTrustedUrl.
+ *
+ * @param options - Validation options, see ensureTrustedUrl
+ * @returns Functions to validate URLs with the options
+ * @throws {TypeError} If an origin pattern is invalid
+ *
+ * @example
+ * ```typescript
+ * // urls.ts
+ * export const redirectUrls = createUrlValidator({
+ *   allowedOrigins: [location.origin, "https://*.example.com"],
+ *   deniedPaths: ["/logout"],
+ * });
+ *
+ * // elsewhere
+ * location.href = redirectUrls.ensure(returnUrl);
+ * ```
+ */
+export function createUrlValidator(
+  options: EnsureTrustedUrlOptions = {}
+): UrlValidator {
+  const frozenOptions = freezeUrlOptions(options);
+  const compiled = compileUrlOptions(frozenOptions);
+
+  const ensure = (url: string | URL): TrustedUrl => {
+    const result = validateUrl(url, compiled);
+    return (
+      frozenOptions.canonical ? result.parsedUrl.href : result.url
+    ) as TrustedUrl;
+  };
+
+  const is = (url: string | URL): boolean => {
+    try {
+      ensure(url);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const tryParse = (url: string | URL): URL | null => {
+    try {
+      return validateUrl(url, compiled).parsedUrl;
+    } catch (error) {
+      if (error instanceof UntrustedUrlError) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return Object.freeze({
+    options: frozenOptions,
+    ensure,
+    is: is as UrlValidator["is"],
+    tryParse,
+  });
+}
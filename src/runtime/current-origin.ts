@@ -0,0 +1,40 @@
+function getOrigin(location: unknown): string | undefined {
+  return typeof location === "object" &&
+    location !== null &&
+    "origin" in location &&
+    typeof location.origin === "string"
+    ? location.origin
+    : undefined;
+}
+
+/**
+ * Gets the locations that may belong to the current page or worker, in the
+ * order they are looked up: `window.location`, `self.location` and
+ * `globalThis.location`
+ */
+export function getGlobalLocations(): unknown[] {
+  const scope = globalThis as {
+    window?: { location?: unknown };
+    self?: { location?: unknown };
+    location?: unknown;
+  };
+
+  return [scope.window?.location, scope.self?.location, scope.location];
+}
+
+/**
+ * Gets the origin of the current page or worker
+ * Looks at `window.location`, `self.location` and `globalThis.location`, so
+ * it works in windows and workers, and returns undefined where there is no
+ * location, e.g. in Node or during server-side rendering.
+ */
+export function getCurrentOrigin(): string | undefined {
+  for (const location of getGlobalLocations()) {
+    const origin = getOrigin(location);
+    if (origin !== undefined) {
+      return origin;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,53 @@
+/**
+ * Options for HTML validation
+ */
+export interface EnsureTrustedHtmlOptions {
+  /**
+   * Removes dangerous markup from the HTML, e.g. `DOMPurify.sanitize`.
+   * Must return the sanitized HTML as a string.
+   */
+  sanitize: (html: string) => string;
+}
+
+export type TrustedHtml<T extends string = string> = T & {
+  readonly __brand: "TrustedHtml";
+};
+
+/**
+ * Sanitizes HTML with the given sanitizer and marks the result as trusted, so
+ * that it can be assigned to HTML sinks such as `innerHTML`
+ *
+ * @param html - The untrusted HTML
+ * @param options - The sanitizer to use
+ * @returns The sanitized HTML
+ * @throws {TypeError} If the HTML is not a string or the sanitizer does not return one
+ *
+ * @example
+ * ```typescript
+ * import DOMPurify from "dompurify";
+ *
+ * element.innerHTML = ensureTrustedHtml(comment.body, {
+ *   sanitize: (html) => DOMPurify.sanitize(html),
+ * });
+ * ```
+ */
+export function ensureTrustedHtml(
+  html: string,
+  options: EnsureTrustedHtmlOptions
+): TrustedHtml {
+  if (typeof html !== "string") {
+    throw new TypeError("HTML must be a string");
+  }
+
+  const { sanitize } = options;
+  if (typeof sanitize !== "function") {
+    throw new TypeError("A sanitize function is required");
+  }
+
+  const sanitized: unknown = sanitize(html);
+  if (typeof sanitized !== "string") {
+    throw new TypeError("Sanitizer must return a string");
+  }
+
+  return sanitized as TrustedHtml;
+}
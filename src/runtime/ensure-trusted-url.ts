@@ -1,7 +1,24 @@
+import {
+  compileOriginPattern,
+  compilePathOptions,
+  type OriginPattern,
+  type PathOptions,
+  type PathPattern,
+  type PathRule,
+  type UrlMatcher,
+} from "./url-patterns.js";
+import { getCurrentOrigin } from "./current-origin.js";
+import {
+  UntrustedUrlError,
+  type UntrustedUrlReason,
+} from "./untrusted-url-error.js";
+
+export type { OriginPattern, PathPattern, PathRule };
+
 /**
  * Options for URL validation
  */
-export interface EnsureTrustedUrlOptions {
+export interface EnsureTrustedUrlOptions extends PathOptions {
   /**
    * Allow URLs with different origins than the current page.
    * Default: false
@@ -12,12 +29,60 @@ export interface EnsureTrustedUrlOptions {
    * Allowed URL protocols. Default: ['http:', 'https:']
    * Relative URLs (no protocol) are always allowed.
    */
-  allowedProtocols?: string[];
+  allowedProtocols?: readonly string[];
 
   /**
    * List of allowed origins. Does not include the current origin.
+   * Supports wildcard subdomains and ports: `https://*.example.com`,
+   * `http://localhost:*`
+   */
+  allowedOrigins?: readonly OriginPattern[];
+
+  /**
+   * If set, only paths matching one of these patterns are allowed, e.g.
+   * `["/app/*"]`. Path rules for an origin take precedence.
+   */
+  allowedPaths?: readonly PathPattern[];
+
+  /**
+   * Paths that are never allowed, even on allowed origins, e.g.
+   * `["/logout", "/api/*"]`. Takes precedence over all allowed paths.
+   */
+  deniedPaths?: readonly PathPattern[];
+
+  /**
+   * Allowed and denied paths for specific origins
+   */
+  pathRules?: readonly PathRule[];
+
+  /**
+   * The URL that relative URLs are resolved against. Its origin is the
+   * current origin unless `currentOrigin` is set. A function is called on
+   * every validation, e.g. to read the URL of the request being rendered.
+   * Default: the location of the current page or worker
+   */
+  baseUrl?: string | URL | (() => string | URL | undefined);
+
+  /**
+   * The origin that is allowed by default and that relative URLs belong to.
+   * A function is called on every validation.
+   * Default: the origin of `baseUrl`, or of the current page or worker
+   */
+  currentOrigin?: string | (() => string | undefined);
+
+  /**
+   * Also reject URLs that browsers or servers may read differently than the
+   * URL constructor: URLs with credentials, backslashes, control or
+   * whitespace characters, percent-encoded schemes, and internationalized
+   * hostnames that are not explicitly allowed. Default: false
    */
-  allowedOrigins?: string[];
+  strict?: boolean;
+
+  /**
+   * Return the canonical `URL#href` instead of the input. Relative URLs are
+   * returned as absolute URLs. Default: false
+   */
+  canonical?: boolean;
 }
 
 export type TrustedUrl<T extends string = string> = T & {
@@ -25,99 +90,306 @@ export type TrustedUrl<T extends string = string> = T & {
 };
 
 /**
- * Validates that a URL is safe for redirection by checking:
- * 1. The URL can be parsed
- * 2. The protocol is in the allowed list (default: http, https, or relative)
- * 3. For absolute URLs, the origin matches the current origin (unless allowCrossOrigin is true)
- *
- * @param url - The URL to validate
- * @param options - Validation options
- * @returns The validated URL
- * @throws {TypeError} If the URL is invalid or unsafe
- *
- * @example
- * ```typescript
- * // Safe - same origin
- * location.href = ensureTrustedUrl("/dashboard");
- *
- * // Safe - validated user input
- * const userUrl = new URLSearchParams(window.location.search).get("returnUrl");
- * if (userUrl) {
- *   location.href = ensureTrustedUrl(userUrl);
- * }
- *
- * // Throws - cross-origin without permission
- * location.href = ensureTrustedUrl("https://evil.com");
- *
- * // Safe - cross-origin allowed
- * location.href = ensureTrustedUrl("https://trusted.com", {
- *   allowedOrigins: ["https://trusted.com"]
- * });
- * ```
+ * Resolves the base URL and the current origin from the options, falling back
+ * to the location of the current page or worker
  */
-export function ensureTrustedUrl<T extends string>(
-  url: T,
-  options: EnsureTrustedUrlOptions = {}
-): TrustedUrl<T> {
-  // @ts-expect-error - we do not have browser types
-  const win = window as unknown;
-  const currentOrigin =
-    typeof win === "object" &&
-    win &&
-    "location" in win &&
-    typeof win.location === "object" &&
-    win.location &&
-    "origin" in win.location &&
-    typeof win.location.origin === "string"
-      ? win.location.origin
-      : undefined;
-
-  const defaultAllowedOrigins = currentOrigin ? [currentOrigin] : [];
+function resolveBase(
+  url: unknown,
+  options: EnsureTrustedUrlOptions
+): {
+  baseUrl: string | undefined;
+  currentOrigin: string | undefined;
+} {
+  const base =
+    typeof options.baseUrl === "function" ? options.baseUrl() : options.baseUrl;
+  const baseUrl = base === undefined ? undefined : String(base);
+
+  let baseOrigin: string | undefined;
+  if (baseUrl !== undefined) {
+    try {
+      baseOrigin = new URL(baseUrl).origin;
+    } catch (error) {
+      throw new UntrustedUrlError(`Invalid base URL: ${baseUrl}`, {
+        reason: "invalid-base",
+        url,
+        options,
+        cause: error,
+      });
+    }
+  }
+
+  const origin =
+    typeof options.currentOrigin === "function"
+      ? options.currentOrigin()
+      : options.currentOrigin;
+  if (origin !== undefined) {
+    try {
+      new URL(origin);
+    } catch (error) {
+      throw new UntrustedUrlError(`Invalid current origin: ${origin}`, {
+        reason: "invalid-base",
+        url,
+        options,
+        cause: error,
+      });
+    }
+  }
+
+  const currentOrigin = origin ?? baseOrigin ?? getCurrentOrigin();
+
+  return { baseUrl: baseUrl ?? currentOrigin, currentOrigin };
+}
+
+const SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Checks the input for forms that browsers or servers may read differently
+ * than the URL constructor
+ */
+function getStrictViolation(
+  url: string,
+  parsedUrl: URL,
+  allowedOrigins: readonly OriginPattern[]
+): [UntrustedUrlReason, string] | undefined {
+  // The URL constructor strips leading and trailing C0 controls and spaces,
+  // and tabs and newlines anywhere
+  if (/^[\u0000-\u0020]|[\u0000-\u001F\u007F]|[\u0000-\u0020]$/.test(url)) {
+    return [
+      "control-characters",
+      `URL contains control or whitespace characters: ${JSON.stringify(url)}`,
+    ];
+  }
+
+  // Backslashes are read as slashes in http(s) URLs, so `/\evil.com` is
+  // protocol-relative
+  if (url.includes("\\")) {
+    return ["backslash", `URL contains a backslash: ${url}`];
+  }
+
+  if (!SCHEME.test(url) && SCHEME.test(decode(url).trimStart())) {
+    return ["encoded-scheme", `URL contains an encoded scheme: ${url}`];
+  }
+
+  if (parsedUrl.username || parsedUrl.password) {
+    return ["credentials", `URL contains credentials: ${parsedUrl.origin}`];
+  }
+
+  // Internationalized hostnames can look like other hostnames, so they are
+  // only trusted if their origin is allowed explicitly
+  const isInternationalized = parsedUrl.hostname
+    .split(".")
+    .some((label) => label.startsWith("xn--"));
+  if (isInternationalized && !allowedOrigins.includes(parsedUrl.origin)) {
+    return [
+      "homograph",
+      `Internationalized hostname not allowed: ${parsedUrl.hostname}`,
+    ];
+  }
+
+  return undefined;
+}
+
+/**
+ * EnsureTrustedUrlOptions with the origin and path patterns compiled
+ */
+export interface CompiledUrlOptions {
+  options: EnsureTrustedUrlOptions;
+
+  /**
+   * Undefined if the current origin is allowed by default
+   */
+  allowedOrigins?: {
+    patterns: readonly OriginPattern[];
+    matchers: UrlMatcher[];
+  };
+
+  isAllowedPath: UrlMatcher;
+}
+
+/**
+ * Compiles the origin and path patterns of the options
+ * @throws {TypeError} If an origin pattern is invalid
+ */
+export function compileUrlOptions(
+  options: EnsureTrustedUrlOptions
+): CompiledUrlOptions {
+  const { allowedOrigins } = options;
+  return {
+    options,
+    allowedOrigins: allowedOrigins && {
+      patterns: allowedOrigins,
+      matchers: allowedOrigins.map(compileOriginPattern),
+    },
+    isAllowedPath: compilePathOptions(options),
+  };
+}
+
+/**
+ * Validates a URL with compiled options, see ensureTrustedUrl
+ * @returns The input as a string and the parsed URL
+ */
+export function validateUrl(
+  input: string | URL,
+  compiled: CompiledUrlOptions
+): { url: string; parsedUrl: URL } {
+  const { options } = compiled;
+  const url = input instanceof URL ? input.href : input;
+  const { baseUrl, currentOrigin } = resolveBase(url, options);
+  const allowedOrigins =
+    compiled.allowedOrigins?.patterns ?? (currentOrigin ? [currentOrigin] : []);
 
   const {
     allowCrossOrigin = false,
     allowedProtocols = ["http:", "https:"],
-    allowedOrigins = defaultAllowedOrigins,
+    strict = false,
   } = options;
 
   if (!url || typeof url !== "string") {
-    throw new TypeError("URL must be a non-empty string");
+    throw new UntrustedUrlError("URL must be a non-empty string", {
+      reason: "empty",
+      url,
+      options,
+    });
   }
 
   let parsedUrl: URL;
   try {
-    parsedUrl = new URL(url, currentOrigin);
+    parsedUrl = new URL(url, baseUrl);
   } catch (error) {
-    throw new TypeError(
+    throw new UntrustedUrlError(
       `Invalid URL: ${url}. ${
         error instanceof Error ? error.message : String(error)
-      }`
+      }`,
+      { reason: "invalid", url, options, cause: error }
     );
   }
 
+  const reject = (reason: UntrustedUrlReason, message: string) =>
+    new UntrustedUrlError(message, { reason, url, parsedUrl, options });
+
+  const strictViolation = strict
+    ? getStrictViolation(url, parsedUrl, allowedOrigins)
+    : undefined;
+  if (strictViolation) {
+    throw reject(...strictViolation);
+  }
+
   if (!allowedProtocols.includes(parsedUrl.protocol)) {
-    throw new TypeError(`Unsafe URL protocol: ${parsedUrl.protocol}`);
+    throw reject("protocol", `Unsafe URL protocol: ${parsedUrl.protocol}`);
   }
 
-  const isAllowedOrigin = allowedOrigins.includes(parsedUrl.origin);
+  const isAllowedOrigin = compiled.allowedOrigins
+    ? compiled.allowedOrigins.matchers.some((matches) => matches(parsedUrl))
+    : allowedOrigins.includes(parsedUrl.origin);
 
   if (!isAllowedOrigin && !allowCrossOrigin) {
-    throw new TypeError(`Cross-origin URL not allowed: ${parsedUrl.origin}`);
+    throw reject("origin", `Cross-origin URL not allowed: ${parsedUrl.origin}`);
+  }
+
+  if (!compiled.isAllowedPath(parsedUrl)) {
+    throw reject("path", `URL path not allowed: ${parsedUrl.pathname}`);
   }
 
   // Additional security checks for dangerous URL patterns for potential browser parsing bugs
   const normalizedUrl = url.toLowerCase().replace(/[^a-z:]/g, "");
   if (normalizedUrl.startsWith("javascript:")) {
-    throw new TypeError(`Potentially dangerous URL protocol detected: ${url}`);
+    throw reject(
+      "dangerous-scheme",
+      `Potentially dangerous URL protocol detected: ${url}`
+    );
   }
 
-  return url as TrustedUrl<T>;
+  return { url, parsedUrl };
+}
+
+/**
+ * Validates that a URL is safe for redirection by checking:
+ * 1. The URL can be parsed
+ * 2. The protocol is in the allowed list (default: http, https, or relative)
+ * 3. For absolute URLs, the origin matches the current origin (unless allowCrossOrigin is true)
+ * 4. The path is not denied and, if allowed paths are given, matches one of them
+ * 5. In strict mode, the URL has no credentials, backslashes, control
+ *    characters, encoded schemes or internationalized hostnames
+ *
+ * @param url - The URL to validate, as a string or a URL instance
+ * @param options - Validation options
+ * @returns The validated URL, or its canonical form with `canonical: true`
+ * @throws {UntrustedUrlError} If the URL is invalid or unsafe
+ *
+ * @example
+ * ```typescript
+ * // Safe - same origin
+ * location.href = ensureTrustedUrl("/dashboard");
+ *
+ * // Safe - validated user input
+ * const userUrl = new URLSearchParams(window.location.search).get("returnUrl");
+ * if (userUrl) {
+ *   location.href = ensureTrustedUrl(userUrl);
+ * }
+ *
+ * // Throws - cross-origin without permission
+ * location.href = ensureTrustedUrl("https://evil.com");
+ *
+ * // Safe - cross-origin allowed
+ * location.href = ensureTrustedUrl("https://trusted.com", {
+ *   allowedOrigins: ["https://trusted.com"]
+ * });
+ *
+ * // Safe - tenant subdomains, except their logout and API paths
+ * location.href = ensureTrustedUrl(returnUrl, {
+ *   allowedOrigins: [location.origin, "https://*.example.com"],
+ *   deniedPaths: ["/logout", "/api/*"],
+ * });
+ *
+ * // Safe - server-side, where there is no location
+ * res.redirect(
+ *   ensureTrustedUrl(returnUrl, { currentOrigin: "https://app.example.com" })
+ * );
+ * ```
+ */
+export function ensureTrustedUrl<T extends string>(
+  url: T,
+  options?: EnsureTrustedUrlOptions & { canonical?: false }
+): TrustedUrl<T>;
+export function ensureTrustedUrl(
+  url: string | URL,
+  options?: EnsureTrustedUrlOptions
+): TrustedUrl;
+export function ensureTrustedUrl(
+  input: string | URL,
+  options: EnsureTrustedUrlOptions = {}
+): TrustedUrl {
+  const { url, parsedUrl } = validateUrl(input, compileUrlOptions(options));
+  return (options.canonical ? parsedUrl.href : url) as TrustedUrl;
 }
 
+/**
+ * Checks if a URL is trusted without throwing
+ *
+ * @param url - The URL to check
+ * @param options - Validation options
+ * @returns Whether the URL passes ensureTrustedUrl
+ */
 export function isTrustedUrl<T extends string>(
   url: T,
+  options?: EnsureTrustedUrlOptions
+): url is TrustedUrl<T>;
+export function isTrustedUrl(
+  url: URL,
+  options?: EnsureTrustedUrlOptions
+): boolean;
+export function isTrustedUrl(
+  url: string | URL,
   options: EnsureTrustedUrlOptions = {}
-): url is TrustedUrl<T> {
+): boolean {
   try {
     ensureTrustedUrl(url, options);
     return true;
@@ -125,3 +397,33 @@ export function isTrustedUrl<T extends string>(
     return false;
   }
 }
+
+/**
+ * Gets the reason why ensureTrustedUrl would reject a URL
+ *
+ * @param url - The URL to check
+ * @param options - Validation options
+ * @returns The reason, or null if the URL is trusted
+ *
+ * @example
+ * ```typescript
+ * const reason = getUntrustedUrlReason(returnUrl);
+ * if (reason) {
+ *   metrics.increment("redirect.blocked", { reason });
+ * }
+ * ```
+ */
+export function getUntrustedUrlReason(
+  url: string | URL,
+  options: EnsureTrustedUrlOptions = {}
+): UntrustedUrlReason | null {
+  try {
+    ensureTrustedUrl(url, options);
+    return null;
+  } catch (error) {
+    if (error instanceof UntrustedUrlError) {
+      return error.reason;
+    }
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 /**
- * Runtime utilities for validating URLs in your application code.
- * Import these in your application to validate redirect URLs at runtime.
+ * Runtime utilities for validating URLs and HTML in your application code.
+ * Import these in your application to validate redirect and script URLs and
+ * sanitize HTML at runtime, also through Trusted Types policies.
  *
  * @example
  * ```typescript
@@ -15,6 +16,56 @@
 
 export {
   ensureTrustedUrl,
+  isTrustedUrl,
+  getUntrustedUrlReason,
   type TrustedUrl,
   type EnsureTrustedUrlOptions,
+  type OriginPattern,
+  type PathPattern,
+  type PathRule,
 } from "./ensure-trusted-url.js";
+
+export {
+  UntrustedUrlError,
+  type UntrustedUrlReason,
+  type UntrustedUrlParts,
+} from "./untrusted-url-error.js";
+
+export {
+  createUrlValidator,
+  type UrlValidator,
+} from "./create-url-validator.js";
+
+export {
+  defineUrlPolicy,
+  type UrlPolicy,
+  type UrlPolicyPathRule,
+} from "./url-policy.js";
+
+export {
+  toTrustedUrl,
+  getTrustedReturnUrl,
+  safeRedirect,
+  type GetTrustedReturnUrlOptions,
+  type SafeRedirectOptions,
+} from "./trusted-redirects.js";
+
+export {
+  ensureTrustedHtml,
+  type TrustedHtml,
+  type EnsureTrustedHtmlOptions,
+} from "./ensure-trusted-html.js";
+
+export {
+  ensureTrustedScriptUrl,
+  type TrustedScriptUrl,
+  type EnsureTrustedScriptUrlOptions,
+} from "./ensure-trusted-script-url.js";
+
+export {
+  createTrustedTypesPolicy,
+  type TrustedTypesPolicy,
+  type TrustedTypesPolicyOptions,
+  type TrustedScriptURL,
+  type TrustedHTML,
+} from "./trusted-types.js";
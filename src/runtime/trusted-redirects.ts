@@ -0,0 +1,231 @@
+import {
+  ensureTrustedUrl,
+  type EnsureTrustedUrlOptions,
+  type TrustedUrl,
+} from "./ensure-trusted-url.js";
+import { getGlobalLocations } from "./current-origin.js";
+
+/**
+ * Options for reading a return URL from the current page's URL
+ */
+export interface GetTrustedReturnUrlOptions extends EnsureTrustedUrlOptions {
+  /**
+   * URL to use if the parameter is missing, untrusted or points back to the
+   * current page. Default: "/"
+   */
+  fallback?: string;
+
+  /**
+   * Where to read the parameter from: the query string (`?returnUrl=...`) or
+   * the fragment (`#returnUrl=...` or `#/route?returnUrl=...`). Default: "search"
+   */
+  source?: "search" | "hash";
+}
+
+/**
+ * Options for validated redirects
+ */
+export interface SafeRedirectOptions extends EnsureTrustedUrlOptions {
+  /**
+   * Use `location.replace` instead of `location.assign`, so the current page
+   * is not kept in the session history. Default: false
+   */
+  replace?: boolean;
+
+  /**
+   * URL to redirect to if the URL is untrusted, or "/" if the fallback is
+   * untrusted too and the options allow "/". Otherwise, untrusted URLs throw
+   * and no redirect happens.
+   */
+  fallback?: string;
+}
+
+/**
+ * The location of a window, or of a worker, which cannot navigate
+ */
+interface BrowserLocation {
+  href: string;
+  search: string;
+  hash: string;
+  assign?(url: string): void;
+  replace?(url: string): void;
+}
+
+/**
+ * Used when the fallback itself is untrusted, if the options allow it
+ */
+const ROOT_FALLBACK = "/";
+
+function getLocation(): BrowserLocation | undefined {
+  return getGlobalLocations().find(
+    (location): location is BrowserLocation =>
+      typeof location === "object" &&
+      location !== null &&
+      "href" in location &&
+      typeof location.href === "string"
+  );
+}
+
+/**
+ * Validates the fallback with the same options, using "/" if the fallback
+ * is untrusted but "/" is trusted
+ *
+ * @throws {UntrustedUrlError} If neither the fallback nor "/" is trusted
+ */
+function toTrustedFallback(
+  fallback: string,
+  options: EnsureTrustedUrlOptions
+): TrustedUrl {
+  try {
+    return ensureTrustedUrl(fallback, options);
+  } catch (error) {
+    try {
+      return ensureTrustedUrl(ROOT_FALLBACK, options);
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Validates a URL like ensureTrustedUrl, but returns the fallback instead of
+ * throwing if the URL is missing or untrusted
+ *
+ * @param url - The URL to validate, e.g. a query parameter that may be null
+ * @param fallback - The URL to use instead, validated with the same options.
+ *   If it is untrusted as well, "/" is used if the options allow it.
+ * @param options - Validation options
+ * @returns The validated URL or the fallback
+ * @throws {UntrustedUrlError} If neither the fallback nor "/" is trusted
+ *
+ * @example
+ * ```typescript
+ * const params = new URLSearchParams(location.search);
+ * location.href = toTrustedUrl(params.get("next"), "/dashboard");
+ * ```
+ */
+export function toTrustedUrl(
+  url: string | null | undefined,
+  fallback: string,
+  options: EnsureTrustedUrlOptions = {}
+): TrustedUrl {
+  if (typeof url === "string") {
+    try {
+      return ensureTrustedUrl(url, options);
+    } catch {
+      // fall through to the fallback
+    }
+  }
+
+  return toTrustedFallback(fallback, options);
+}
+
+/**
+ * Reads a return URL parameter from the current page's URL and validates it
+ * The fallback is used if the parameter is missing or untrusted, or if it
+ * points back to the current page, which would cause a redirect loop.
+ *
+ * @param paramName - The name of the parameter, e.g. "returnUrl"
+ * @param options - Where to read the parameter from, the fallback and
+ *   validation options
+ * @returns The validated return URL or the fallback ("/" if the fallback is
+ *   untrusted as well and the options allow "/")
+ * @throws {UntrustedUrlError} If neither the fallback nor "/" is trusted
+ *
+ * @example
+ * ```typescript
+ * // https://example.com/login?returnUrl=%2Fsettings
+ * location.href = getTrustedReturnUrl("returnUrl"); // "/settings"
+ * ```
+ */
+export function getTrustedReturnUrl(
+  paramName: string,
+  options: GetTrustedReturnUrlOptions = {}
+): TrustedUrl {
+  const { fallback = "/", source = "search", ...urlOptions } = options;
+  const location = getLocation();
+  if (!location) {
+    return toTrustedFallback(fallback, urlOptions);
+  }
+
+  const query =
+    source === "hash"
+      ? location.hash.slice(location.hash.indexOf("?") + 1 || 1)
+      : location.search;
+  const value = new URLSearchParams(query).get(paramName);
+
+  if (value !== null && isCurrentPage(value, location.href, source)) {
+    return toTrustedFallback(fallback, urlOptions);
+  }
+
+  return toTrustedUrl(value, fallback, urlOptions);
+}
+
+/**
+ * Checks if a URL resolves to the page at `currentHref`, ignoring the query
+ * string and fragment
+ * With hash routing, the route in the fragment has to match as well, but its
+ * own query string is ignored, e.g. `#/login?returnUrl=...` is `#/login`.
+ */
+function isCurrentPage(
+  url: string,
+  currentHref: string,
+  source: "search" | "hash"
+): boolean {
+  try {
+    const target = new URL(url, currentHref);
+    const current = new URL(currentHref);
+    return (
+      target.origin === current.origin &&
+      target.pathname === current.pathname &&
+      (source !== "hash" || getHashRoute(target) === getHashRoute(current))
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getHashRoute(url: URL): string {
+  return url.hash.split("?")[0] ?? "";
+}
+
+/**
+ * Redirects to a URL only after validating it with ensureTrustedUrl
+ *
+ * @param url - The URL to redirect to
+ * @param options - Whether to replace the current history entry, a fallback
+ *   for untrusted URLs and validation options
+ * @returns The URL that was redirected to
+ * @throws {UntrustedUrlError} If the URL is untrusted and there is no
+ *   trusted fallback
+ * @throws {TypeError} If there is no location to redirect
+ *
+ * @example
+ * ```typescript
+ * safeRedirect(params.get("next"), { fallback: "/", replace: true });
+ * ```
+ */
+export function safeRedirect(
+  url: string | null | undefined,
+  options: SafeRedirectOptions = {}
+): TrustedUrl {
+  const { replace = false, fallback, ...urlOptions } = options;
+
+  const trustedUrl =
+    fallback === undefined
+      ? ensureTrustedUrl(url ?? "", urlOptions)
+      : toTrustedUrl(url, fallback, urlOptions);
+
+  const location = getLocation();
+  if (!location?.assign || !location.replace) {
+    throw new TypeError("Cannot redirect without a location");
+  }
+
+  if (replace) {
+    location.replace(trustedUrl);
+  } else {
+    location.assign(trustedUrl);
+  }
+
+  return trustedUrl;
+}
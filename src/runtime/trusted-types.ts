@@ -0,0 +1,175 @@
+import {
+  ensureTrustedHtml,
+  type EnsureTrustedHtmlOptions,
+  type TrustedHtml,
+} from "./ensure-trusted-html.js";
+import {
+  ensureTrustedScriptUrl,
+  type EnsureTrustedScriptUrlOptions,
+  type TrustedScriptUrl,
+} from "./ensure-trusted-script-url.js";
+
+/**
+ * Options for the Trusted Types policy
+ */
+export interface TrustedTypesPolicyOptions {
+  /**
+   * Options for validating script URLs in `createScriptURL`
+   */
+  scriptUrl?: EnsureTrustedScriptUrlOptions;
+
+  /**
+   * Sanitizer for `createHTML`. Without it, the policy does not create HTML.
+   */
+  html?: EnsureTrustedHtmlOptions;
+}
+
+/**
+ * The browser's TrustedScriptURL, which TypeScript's DOM library does not
+ * declare. It stringifies to the validated URL.
+ */
+export interface TrustedScriptURL {
+  readonly __brand: "TrustedScriptURL";
+  toString(): string;
+  toJSON(): string;
+}
+
+/**
+ * The browser's TrustedHTML, which TypeScript's DOM library does not declare.
+ * It stringifies to the sanitized HTML.
+ */
+export interface TrustedHTML {
+  readonly __brand: "TrustedHTML";
+  toString(): string;
+  toJSON(): string;
+}
+
+/**
+ * A Trusted Types policy, or its fallback where the API is missing
+ * With the API, the values are the browser's TrustedScriptURL and TrustedHTML
+ * objects, which the DOM sinks accept and which stringify to the validated
+ * value. Without it, they are the validated strings. Both are typed as the
+ * branded strings, because TypeScript's DOM library types the sinks as strings.
+ */
+export interface TrustedTypesPolicy {
+  readonly name: string;
+
+  /**
+   * Whether the policy was created with the browser's Trusted Types API
+   */
+  readonly isNative: boolean;
+
+  createScriptURL(url: string): TrustedScriptUrl;
+  createHTML(html: string): TrustedHtml;
+}
+
+interface PolicyRules {
+  createScriptURL: (url: string) => string;
+  createHTML?: (html: string) => string;
+}
+
+// Typed like TrustedTypesPolicy, as the values are passed to string-typed sinks
+interface NativePolicy {
+  createScriptURL(url: string): TrustedScriptUrl;
+  createHTML(html: string): TrustedHtml;
+}
+
+interface NativePolicyFactory {
+  createPolicy(name: string, rules: PolicyRules): NativePolicy;
+}
+
+const policies = new Map<
+  string,
+  { policy: TrustedTypesPolicy; options?: TrustedTypesPolicyOptions }
+>();
+
+function getPolicyFactory(): NativePolicyFactory | undefined {
+  const { trustedTypes } = globalThis as { trustedTypes?: unknown };
+  return typeof trustedTypes === "object" &&
+    trustedTypes &&
+    "createPolicy" in trustedTypes &&
+    typeof trustedTypes.createPolicy === "function"
+    ? (trustedTypes as NativePolicyFactory)
+    : undefined;
+}
+
+/**
+ * Creates a named Trusted Types policy whose callbacks validate values with
+ * ensureTrustedScriptUrl and ensureTrustedHtml
+ *
+ * Where the Trusted Types API is missing (e.g. in Node and Firefox), the
+ * returned policy runs the same validation and returns plain strings. The
+ * policy is created once per name; later calls with the same name and the
+ * same options object (or no options) return it.
+ *
+ * @param name - The policy name, as allowed by the `trusted-types` CSP directive.
+ *   Use "default" to apply the policy to every sink that receives a string.
+ * @param options - Validation options for script URLs and the HTML sanitizer
+ * @returns The policy
+ * @throws {TypeError} If a policy with the same name was created with other
+ *   options, and from the policy's methods if a value is invalid or unsafe
+ *
+ * @example
+ * ```typescript
+ * import DOMPurify from "dompurify";
+ *
+ * const policy = createTrustedTypesPolicy("app", {
+ *   scriptUrl: { allowedOrigins: ["https://cdn.example.com"] },
+ *   html: { sanitize: (html) => DOMPurify.sanitize(html) },
+ * });
+ *
+ * script.src = policy.createScriptURL(pluginUrl);
+ * element.innerHTML = policy.createHTML(comment.body);
+ * ```
+ */
+export function createTrustedTypesPolicy(
+  name: string,
+  options?: TrustedTypesPolicyOptions
+): TrustedTypesPolicy {
+  const existing = policies.get(name);
+  if (existing) {
+    if (options && options !== existing.options) {
+      throw new TypeError(
+        `Trusted Types policy "${name}" already exists with different options`
+      );
+    }
+    return existing.policy;
+  }
+
+  const { scriptUrl, html } = options ?? {};
+  const rules: PolicyRules = {
+    createScriptURL: (url) => ensureTrustedScriptUrl(url, scriptUrl),
+  };
+  if (html) {
+    rules.createHTML = (value) => ensureTrustedHtml(value, html);
+  }
+
+  const native = getPolicyFactory()?.createPolicy(name, rules);
+
+  const policy: TrustedTypesPolicy = {
+    name,
+    isNative: native !== undefined,
+
+    createScriptURL(url) {
+      return native
+        ? native.createScriptURL(url)
+        : (rules.createScriptURL(url) as TrustedScriptUrl);
+    },
+
+    createHTML(value) {
+      const { createHTML } = rules;
+      if (!createHTML) {
+        throw new TypeError(
+          `Trusted Types policy "${name}" has no HTML sanitizer`
+        );
+      }
+
+      return native
+        ? native.createHTML(value)
+        : (createHTML(value) as TrustedHtml);
+    },
+  };
+
+  policies.set(name, { policy, options });
+  return policy;
+}
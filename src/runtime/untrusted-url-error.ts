@@ -0,0 +1,120 @@
+import type { EnsureTrustedUrlOptions } from "./ensure-trusted-url.js";
+
+/**
+ * Why a URL was rejected
+ * - `empty`: the URL is not a string or is empty
+ * - `invalid`: the URL can't be parsed
+ * - `invalid-base`: the `baseUrl` option is not an absolute URL
+ * - `protocol`: the protocol is not allowed
+ * - `origin`: the origin is not allowed
+ * - `path`: the path is denied or not allowed
+ * - `dangerous-scheme`: the URL looks like a `javascript:` URL once stripped
+ *   of characters that browsers ignore
+ *
+ * In strict mode:
+ * - `credentials`: the URL has a username or password
+ * - `backslash`: the URL contains a backslash
+ * - `control-characters`: the URL contains control or whitespace characters
+ *   that the URL constructor strips
+ * - `encoded-scheme`: the URL has a scheme once percent-decoded
+ * - `homograph`: the hostname is internationalized and not explicitly allowed
+ */
+export type UntrustedUrlReason =
+  | "empty"
+  | "invalid"
+  | "invalid-base"
+  | "protocol"
+  | "origin"
+  | "path"
+  | "dangerous-scheme"
+  | "credentials"
+  | "backslash"
+  | "control-characters"
+  | "encoded-scheme"
+  | "homograph";
+
+/**
+ * The parts of a rejected URL, as parsed by the URL constructor
+ */
+export interface UntrustedUrlParts {
+  href: string;
+  protocol: string;
+  origin: string;
+  host: string;
+  hostname: string;
+  port: string;
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+interface UntrustedUrlErrorDetails {
+  reason: UntrustedUrlReason;
+  url: unknown;
+  parsedUrl?: URL;
+  options: EnsureTrustedUrlOptions;
+  cause?: unknown;
+}
+
+/**
+ * Thrown by ensureTrustedUrl when a URL is rejected
+ * Extends TypeError, so existing `catch` blocks and `instanceof TypeError`
+ * checks keep working.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   location.href = ensureTrustedUrl(returnUrl);
+ * } catch (error) {
+ *   if (error instanceof UntrustedUrlError) {
+ *     report("redirect-blocked", { reason: error.reason, origin: error.parts?.origin });
+ *   }
+ * }
+ * ```
+ */
+export class UntrustedUrlError extends TypeError {
+  override readonly name = "UntrustedUrlError";
+
+  /**
+   * Why the URL was rejected
+   */
+  readonly reason: UntrustedUrlReason;
+
+  /**
+   * The rejected value
+   */
+  readonly url: unknown;
+
+  /**
+   * The parts of the URL, or null if it could not be parsed
+   */
+  readonly parts: UntrustedUrlParts | null;
+
+  /**
+   * The options the URL was validated with
+   */
+  readonly options: EnsureTrustedUrlOptions;
+
+  constructor(
+    message: string,
+    { reason, url, parsedUrl, options, cause }: UntrustedUrlErrorDetails
+  ) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.reason = reason;
+    this.url = url;
+    this.parts = parsedUrl
+      ? {
+          href: parsedUrl.href,
+          protocol: parsedUrl.protocol,
+          origin: parsedUrl.origin,
+          host: parsedUrl.host,
+          hostname: parsedUrl.hostname,
+          port: parsedUrl.port,
+          pathname: parsedUrl.pathname,
+          search: parsedUrl.search,
+          hash: parsedUrl.hash,
+        }
+      : null;
+    this.options = options;
+  }
+}
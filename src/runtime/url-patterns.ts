@@ -0,0 +1,177 @@
+/**
+ * An origin, optionally with wildcards for subdomains and the port:
+ * `https://example.com`, `https://*.example.com`, `http://localhost:*`
+ */
+export type OriginPattern = string;
+
+/**
+ * A path pattern. Strings follow URLPattern syntax for pathnames: `*` matches
+ * any characters (including `/`) and `:name` matches a single segment, e.g.
+ * `/logout`, `/api/*`, `/users/:id/edit`. RegExps are tested against the
+ * pathname.
+ */
+export type PathPattern = string | RegExp;
+
+/**
+ * Path rules for the origins that match `origin`
+ */
+export interface PathRule {
+  origin: OriginPattern;
+
+  /**
+   * Paths that are allowed on the matching origins. Replaces the global
+   * `allowedPaths` for these origins
+   */
+  allowedPaths?: readonly PathPattern[];
+
+  /**
+   * Paths that are never allowed on the matching origins, in addition to the
+   * global `deniedPaths`
+   */
+  deniedPaths?: readonly PathPattern[];
+}
+
+/**
+ * Path options shared by the URL validators
+ */
+export interface PathOptions {
+  allowedPaths?: readonly PathPattern[];
+  deniedPaths?: readonly PathPattern[];
+  pathRules?: readonly PathRule[];
+}
+
+const ORIGIN_PATTERN =
+  /^([a-z][a-z0-9+.-]*:)\/\/(\*\.)?([^/:*]+)(?::(\d+|\*))?$/i;
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+  "ws:": "80",
+  "wss:": "443",
+  "ftp:": "21",
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks if a URL matches a compiled pattern
+ */
+export type UrlMatcher = (url: URL) => boolean;
+
+/**
+ * Compiles an origin pattern, so it can be matched against many URLs
+ * `*.` matches one or more subdomain labels but not the domain itself, and a
+ * `:*` port matches any port including the default one
+ */
+export function compileOriginPattern(pattern: OriginPattern): UrlMatcher {
+  if (!pattern.includes("*")) {
+    return (url) => url.origin === pattern;
+  }
+
+  const match = ORIGIN_PATTERN.exec(pattern);
+  if (!match) {
+    throw new TypeError(`Invalid origin pattern: ${pattern}`);
+  }
+
+  const [, scheme = "", subdomainWildcard, host = "", port] = match;
+  const protocol = scheme.toLowerCase();
+  const hostname = host.toLowerCase();
+  // URL#port is empty for the default port of the protocol
+  const expectedPort = !port || port === DEFAULT_PORTS[protocol] ? "" : port;
+
+  return (url) =>
+    url.protocol === protocol &&
+    (subdomainWildcard
+      ? url.hostname.endsWith(`.${hostname}`)
+      : url.hostname === hostname) &&
+    (port === "*" || url.port === expectedPort);
+}
+
+/**
+ * Converts a URLPattern-style pathname pattern to a RegExp
+ */
+function pathPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*|:[A-Za-z_][A-Za-z0-9_]*)/)
+    .map((part) =>
+      part === "*" ? ".*" : part.startsWith(":") ? "[^/]+" : escapeRegExp(part)
+    )
+    .join("");
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles a path pattern to a function that checks a pathname
+ */
+function compilePathPattern(
+  pattern: PathPattern
+): (pathname: string) => boolean {
+  const regExp =
+    typeof pattern === "string" ? pathPatternToRegExp(pattern) : pattern;
+
+  // search() ignores `lastIndex`, so global RegExps can be reused safely
+  return (pathname) => pathname.search(regExp) !== -1;
+}
+
+/**
+ * Decodes the pathname for matching, so that `/%6Cogout` can't bypass a rule
+ * for `/logout`
+ */
+function getMatchablePathname(url: URL): string {
+  try {
+    return decodeURIComponent(url.pathname);
+  } catch {
+    return url.pathname;
+  }
+}
+
+/**
+ * Compiles path options to a function that checks if the path of a URL is
+ * allowed
+ *
+ * Precedence:
+ * 1. A path matching a denied pattern (global or of a matching path rule) is
+ *    never allowed
+ * 2. If path rules matching the origin have `allowedPaths`, the path must match
+ *    one of them
+ * 3. Otherwise, if there are global `allowedPaths`, the path must match one
+ * 4. Otherwise, the path is allowed
+ */
+export function compilePathOptions(options: PathOptions): UrlMatcher {
+  const compile = (patterns: readonly PathPattern[] | undefined) =>
+    patterns?.map(compilePathPattern);
+
+  const allowedPaths = compile(options.allowedPaths);
+  const deniedPaths = compile(options.deniedPaths) ?? [];
+  const pathRules = (options.pathRules ?? []).map((rule) => ({
+    matchesOrigin: compileOriginPattern(rule.origin),
+    allowedPaths: compile(rule.allowedPaths),
+    deniedPaths: compile(rule.deniedPaths) ?? [],
+  }));
+
+  return (url) => {
+    const pathname = getMatchablePathname(url);
+    const rules = pathRules.filter((rule) => rule.matchesOrigin(url));
+
+    const denied = [
+      ...deniedPaths,
+      ...rules.flatMap((rule) => rule.deniedPaths),
+    ];
+    if (denied.some((matches) => matches(pathname) || matches(url.pathname))) {
+      return false;
+    }
+
+    const ruleAllowed = rules.flatMap((rule) => rule.allowedPaths ?? []);
+    const allowed = rules.some((rule) => rule.allowedPaths)
+      ? ruleAllowed
+      : allowedPaths;
+
+    return (
+      !allowed ||
+      allowed.some((matches) => matches(pathname) && matches(url.pathname))
+    );
+  };
+}
@@ -0,0 +1,72 @@
+import { freezeUrlOptions } from "./create-url-validator.js";
+import { compileUrlOptions } from "./ensure-trusted-url.js";
+import type { OriginPattern } from "./url-patterns.js";
+
+/**
+ * Path rules of a URL policy, see PathRule
+ */
+export interface UrlPolicyPathRule {
+  origin: OriginPattern;
+  allowedPaths?: readonly string[];
+  deniedPaths?: readonly string[];
+}
+
+/**
+ * The URLs an application trusts, shared by the lint rules and the runtime
+ * A policy only contains strings, so it can be used in ESLint configs. It is
+ * a subset of EnsureTrustedUrlOptions and can be passed to ensureTrustedUrl
+ * and createUrlValidator as is.
+ */
+export interface UrlPolicy {
+  /**
+   * Allowed origins, e.g. `https://app.example.com` or `https://*.example.com`
+   */
+  allowedOrigins?: readonly OriginPattern[];
+
+  /**
+   * Allowed protocols. Default: ['http:', 'https:']
+   */
+  allowedProtocols?: readonly string[];
+
+  /**
+   * If set, only paths matching one of these patterns are allowed
+   */
+  allowedPaths?: readonly string[];
+
+  /**
+   * Paths that are never allowed
+   */
+  deniedPaths?: readonly string[];
+
+  /**
+   * Allowed and denied paths for specific origins
+   */
+  pathRules?: readonly UrlPolicyPathRule[];
+}
+
+/**
+ * Defines a URL policy to share between the ESLint config and the application
+ * The policy is checked and frozen, so invalid origin patterns fail early
+ * and the policy can't be changed at runtime.
+ *
+ * @param policy - The origins, protocols and paths to trust
+ * @returns The frozen policy
+ * @throws {TypeError} If an origin pattern is invalid
+ *
+ * @example
+ * ```typescript
+ * // url-policy.js, imported by eslint.config.js and the application
+ * export const urlPolicy = defineUrlPolicy({
+ *   allowedOrigins: ["https://app.example.com", "https://*.example.com"],
+ *   allowedProtocols: ["https:"],
+ *   deniedPaths: ["/logout"],
+ * });
+ *
+ * // application
+ * location.href = ensureTrustedUrl(returnUrl, urlPolicy);
+ * ```
+ */
+export function defineUrlPolicy(policy: UrlPolicy): Readonly<UrlPolicy> {
+  compileUrlOptions(policy);
+  return freezeUrlOptions(policy);
+}
@@ -0,0 +1,748 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  ParserServicesWithTypeInformation,
+  TSESLint,
+  TSESTree,
+} from "@typescript-eslint/utils";
+import ts, { TypeChecker, Type } from "typescript";
+import {
+  isGlobalIdentifier,
+  getImportedCallee,
+  getPropertyName,
+  getConstInitializer,
+  getStaticStringValue,
+  getUrlScheme,
+  unwrapChainExpression,
+  DANGEROUS_URL_SCHEMES,
+} from "./index.js";
+import type { StaticUrl } from "./url-policy.js";
+
+/**
+ * A function that validates URLs, identified by the module it is imported from
+ */
+export interface TrustedFunction {
+  from: string;
+  name: string;
+}
+
+export const RUNTIME_MODULE = "eslint-plugin-dom-security/runtime";
+
+export const DEFAULT_TRUSTED_FUNCTIONS: TrustedFunction[] = [
+  "ensureTrustedUrl",
+  "toTrustedUrl",
+  "getTrustedReturnUrl",
+].flatMap((name) => [
+  { from: RUNTIME_MODULE, name },
+  { from: "eslint-plugin-dom-security", name },
+]);
+
+/**
+ * Trusted Types of the DOM that are accepted in place of a brand
+ * A TrustedScriptURL has passed a policy for loading scripts, which is at
+ * least as strict as the checks for other URLs
+ */
+const DOM_TRUSTED_TYPES: Record<string, string[]> = {
+  TrustedUrl: ["TrustedScriptURL"],
+  TrustedScriptUrl: ["TrustedScriptURL"],
+  TrustedHtml: ["TrustedHTML"],
+};
+
+/**
+ * Globals and Window properties that refer to a window in the frame hierarchy
+ */
+const FRAME_WINDOW_NAMES = new Set([
+  "window",
+  "self",
+  "top",
+  "parent",
+  "opener",
+  "frames",
+]);
+
+export type RedirectObjectType = "location" | "navigation" | "window";
+
+interface VariableInfo {
+  node: TSESTree.Identifier;
+  isLocation: boolean;
+  isNavigation: boolean;
+  isWindow: boolean;
+}
+
+export interface AnalysisOptions {
+  /**
+   * Validator functions in addition to the runtime's ensureTrustedUrl
+   */
+  trustedFunctions?: TrustedFunction[];
+
+  /**
+   * If set, only URLs with these schemes (or relative URLs) are safe
+   */
+  allowedSchemes?: string[];
+
+  /**
+   * The brand of values that are safe for the sink. Default: "TrustedUrl"
+   */
+  brand?: string;
+
+  /**
+   * Validators that are always trusted. Default: ensureTrustedUrl
+   */
+  defaultTrustedFunctions?: TrustedFunction[];
+
+  /**
+   * Checks statically known URLs and the known start of URLs in place of the
+   * scheme check, for sinks with stricter rules. Default: isSafeUrlString
+   */
+  isSafeStaticUrl?: (url: StaticUrl) => boolean;
+}
+
+/**
+ * Creates the type-aware analysis shared by the rules: type lookups, recognition
+ * of redirect objects (window, location, ...) and the URL value checks
+ */
+export function createAnalysis<
+  MessageIds extends string,
+  Options extends readonly unknown[]
+>(
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
+  {
+    trustedFunctions = [],
+    allowedSchemes,
+    brand = "TrustedUrl",
+    defaultTrustedFunctions = DEFAULT_TRUSTED_FUNCTIONS,
+    isSafeStaticUrl: customStaticUrlCheck,
+  }: AnalysisOptions = {}
+) {
+  let services: ParserServicesWithTypeInformation | null = null;
+  let checker: TypeChecker | null = null;
+
+  try {
+    services = ESLintUtils.getParserServices(context);
+    checker = services.program.getTypeChecker();
+  } catch {}
+
+  const trackedVariables = new Map<string, VariableInfo>();
+
+  function getType(node: TSESTree.Node): Type | null {
+    if (!services || !checker) return null;
+    try {
+      const tsNode = services.esTreeNodeToTSNodeMap.get(node);
+      return checker.getTypeAtLocation(tsNode);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Gets the type of a global variable as seen from the file, e.g. `self`
+   */
+  function getGlobalType(name: string): Type | null {
+    if (!services || !checker) return null;
+    const sourceFile = services.esTreeNodeToTSNodeMap.get(
+      context.sourceCode.ast
+    );
+    const symbol = checker.resolveName(
+      name,
+      sourceFile,
+      ts.SymbolFlags.Value,
+      false
+    );
+    return symbol
+      ? checker.getTypeOfSymbolAtLocation(symbol, sourceFile)
+      : null;
+  }
+
+  /**
+   * Checks if a type matches a specific type name by checking its symbol
+   * Handles complex types like "Window & typeof globalThis" by checking constituent types
+   */
+  function hasTypeName(type: Type, typeName: string): boolean {
+    if (!checker) return false;
+
+    const symbol = type.getSymbol();
+    if (symbol?.getName() === typeName) {
+      return true;
+    }
+
+    if (type.isUnion()) {
+      return type.types.some((t) => hasTypeName(t, typeName));
+    }
+
+    if (type.isIntersection()) {
+      return type.types.some((t) => hasTypeName(t, typeName));
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks if a type matching the type name is declared in the given module,
+   * either in the module's package or in a `declare module` block for it
+   */
+  function hasTypeNameFromModule(
+    type: Type,
+    typeName: string,
+    moduleName: string
+  ): boolean {
+    const symbol = type.getSymbol();
+    if (symbol?.getName() === typeName) {
+      const isFromModule = (symbol.getDeclarations() ?? []).some(
+        (declaration) => {
+          if (
+            declaration
+              .getSourceFile()
+              .fileName.includes(`/node_modules/${moduleName}/`)
+          ) {
+            return true;
+          }
+
+          for (
+            let parent: ts.Node | undefined = declaration.parent;
+            parent;
+            parent = parent.parent
+          ) {
+            if (
+              ts.isModuleDeclaration(parent) &&
+              ts.isStringLiteral(parent.name) &&
+              parent.name.text === moduleName
+            ) {
+              return true;
+            }
+          }
+
+          return false;
+        }
+      );
+      if (isFromModule) {
+        return true;
+      }
+    }
+
+    if (type.isUnion() || type.isIntersection()) {
+      return type.types.some((t) =>
+        hasTypeNameFromModule(t, typeName, moduleName)
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks if a value of this type could be a string
+   */
+  function isStringLikeType(type: Type): boolean {
+    if (type.isIntersection()) {
+      return type.types.some(isStringLikeType);
+    }
+
+    if (type.isUnion()) {
+      return type.types.some(isStringLikeType);
+    }
+
+    return (
+      (type.flags &
+        (ts.TypeFlags.StringLike |
+          ts.TypeFlags.Any |
+          ts.TypeFlags.Unknown |
+          ts.TypeFlags.TypeParameter)) !==
+      0
+    );
+  }
+
+  /**
+   * Checks if a type carries the given `__brand`, e.g. TrustedUrl
+   */
+  function hasBrand(type: Type, brand: string): boolean {
+    if (!checker) return false;
+
+    const properties = type.getProperties();
+    const brandProp = properties.find((prop) => prop.getName() === "__brand");
+
+    if (!brandProp) {
+      return false;
+    }
+
+    const brandType = checker.getTypeOfSymbol(brandProp);
+
+    if (brandType.isStringLiteral()) {
+      return brandType.value === brand;
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks if a type carries the brand of the sink or is one of the
+   * corresponding DOM Trusted Types, e.g. TrustedHTML for TrustedHtml
+   */
+  function isTrustedType(type: Type): boolean {
+    if (hasBrand(type, brand)) {
+      return true;
+    }
+
+    if (type.isUnion()) {
+      return type.types.every(isTrustedType);
+    }
+
+    const typeName = type.getSymbol()?.getName();
+    return (
+      typeName !== undefined &&
+      (DOM_TRUSTED_TYPES[brand] ?? []).includes(typeName)
+    );
+  }
+
+  const allTrustedFunctions = [...defaultTrustedFunctions, ...trustedFunctions];
+
+  /**
+   * Checks if a call goes to one of the trusted validator functions
+   * Only calls whose callee is bound to the configured import count, so local
+   * functions that merely share the name are not trusted
+   */
+  function isTrustedFunctionCall(node: TSESTree.CallExpression): boolean {
+    const imported = getImportedCallee(
+      unwrapChainExpression(node.callee),
+      context.sourceCode
+    );
+    if (!imported) {
+      return false;
+    }
+
+    return allTrustedFunctions.some(
+      ({ from, name }) => imported.source === from && imported.name === name
+    );
+  }
+
+  /**
+   * Checks a statically known URL (or the static start of one) against the
+   * scheme policy: dangerous schemes are always rejected, and if an allowlist
+   * is configured, only the listed schemes are accepted
+   */
+  function isSafeUrlString(value: string): boolean {
+    const scheme = getUrlScheme(value);
+    if (!scheme) {
+      return true;
+    }
+
+    if (DANGEROUS_URL_SCHEMES.includes(scheme)) {
+      return false;
+    }
+
+    return (
+      !allowedSchemes ||
+      allowedSchemes.some((allowed) => allowed.toLowerCase() === scheme)
+    );
+  }
+
+  function isSafeStaticUrl(url: StaticUrl): boolean {
+    return customStaticUrlCheck
+      ? customStaticUrlCheck(url)
+      : isSafeUrlString(url.value);
+  }
+
+  /**
+   * Gets the statically known start of a `+` concatenation
+   * E.g., "/app/" + BASE + x + "/" -> "/app/" + value of BASE
+   */
+  function getStaticPrefix(node: TSESTree.BinaryExpression): string {
+    const operands: TSESTree.Node[] = [];
+    const collectOperands = (operand: TSESTree.Node) => {
+      if (
+        operand.type === AST_NODE_TYPES.BinaryExpression &&
+        operand.operator === "+"
+      ) {
+        collectOperands(operand.left);
+        collectOperands(operand.right);
+      } else {
+        operands.push(operand);
+      }
+    };
+    collectOperands(node);
+
+    let prefix = "";
+    for (const operand of operands) {
+      const value = getStaticStringValue(operand, context.sourceCode);
+      if (value === null) {
+        break;
+      }
+      prefix += value;
+    }
+
+    return prefix;
+  }
+
+  /**
+   * Gets the statically known start of a template literal, folding constant
+   * expressions, e.g. `${BASE_URL}/help/${page}` -> value of BASE_URL + "/help/"
+   */
+  function getTemplateUrl(node: TSESTree.TemplateLiteral): StaticUrl {
+    let value = "";
+    for (const [i, quasi] of node.quasis.entries()) {
+      value += quasi.value.cooked ?? quasi.value.raw;
+      const expression = node.expressions[i];
+      if (!expression) {
+        break;
+      }
+
+      const expressionValue = getStaticStringValue(
+        expression,
+        context.sourceCode
+      );
+      if (expressionValue === null) {
+        return { value, isComplete: false };
+      }
+      value += expressionValue;
+    }
+
+    return { value, isComplete: true };
+  }
+
+  /**
+   * Checks if a value is safe to redirect to
+   * Const bindings are resolved through scope analysis, and conditional,
+   * logical and sequence expressions are only safe if every possible value is
+   */
+  function isValueSafe(
+    node: TSESTree.Node,
+    seen = new Set<TSESTree.Node>()
+  ): boolean {
+    if (seen.has(node)) {
+      return false;
+    }
+    seen.add(node);
+
+    const staticValue = getStaticStringValue(node, context.sourceCode);
+    if (staticValue !== null) {
+      return isSafeStaticUrl({ value: staticValue, isComplete: true });
+    }
+
+    switch (node.type) {
+      case AST_NODE_TYPES.TSAsExpression:
+      case AST_NODE_TYPES.TSSatisfiesExpression:
+      case AST_NODE_TYPES.TSNonNullExpression:
+      case AST_NODE_TYPES.TSTypeAssertion:
+        if (isValueSafe(node.expression, seen)) {
+          return true;
+        }
+        break;
+
+      case AST_NODE_TYPES.ConditionalExpression:
+        if (
+          isValueSafe(node.consequent, seen) &&
+          isValueSafe(node.alternate, seen)
+        ) {
+          return true;
+        }
+        break;
+
+      case AST_NODE_TYPES.LogicalExpression:
+        if (isValueSafe(node.left, seen) && isValueSafe(node.right, seen)) {
+          return true;
+        }
+        break;
+
+      case AST_NODE_TYPES.SequenceExpression: {
+        const last = node.expressions[node.expressions.length - 1];
+        if (last && isValueSafe(last, seen)) {
+          return true;
+        }
+        break;
+      }
+
+      case AST_NODE_TYPES.Identifier: {
+        const init = getConstInitializer(node, context.sourceCode);
+        if (init && isValueSafe(init, seen)) {
+          return true;
+        }
+        break;
+      }
+    }
+
+    if (
+      node.type === AST_NODE_TYPES.TemplateLiteral &&
+      node.expressions.length > 0
+    ) {
+      const { value, isComplete } = getTemplateUrl(node);
+      if (value.length > 0) {
+        if (!isComplete && /^[/\\]+$/.test(value)) {
+          return false;
+        }
+
+        return isSafeStaticUrl({ value, isComplete });
+      }
+      return false;
+    }
+
+    if (
+      node.type === AST_NODE_TYPES.BinaryExpression &&
+      node.operator === "+"
+    ) {
+      const prefix = getStaticPrefix(node);
+      if (prefix) {
+        if (/^[/\\]+$/.test(prefix)) {
+          return false;
+        }
+        return isSafeStaticUrl({ value: prefix, isComplete: false });
+      }
+
+      return false;
+    }
+
+    const type = getType(node);
+    if (type) {
+      if (isTrustedType(type)) {
+        return true;
+      }
+
+      if (type.isStringLiteral()) {
+        return isSafeStaticUrl({ value: type.value, isComplete: true });
+      }
+
+      if (
+        type.isUnion() &&
+        type.types.every(
+          (t) =>
+            t.isStringLiteral() &&
+            isSafeStaticUrl({ value: t.value, isComplete: true })
+        )
+      ) {
+        return true;
+      }
+    }
+
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      isTrustedFunctionCall(node)
+    ) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Gets the statically known URLs a value can have, or their statically known
+   * start, e.g. for `https://example.com/${path}` or "/app/" + path
+   * Const bindings are folded into the URLs.
+   * Conditional and logical expressions give the URLs of both branches.
+   */
+  function getStaticUrls(
+    node: TSESTree.Node,
+    seen = new Set<TSESTree.Node>()
+  ): StaticUrl[] {
+    if (seen.has(node)) {
+      return [];
+    }
+    seen.add(node);
+
+    const staticValue = getStaticStringValue(node, context.sourceCode);
+    if (staticValue !== null) {
+      return [{ value: staticValue, isComplete: true }];
+    }
+
+    switch (node.type) {
+      case AST_NODE_TYPES.TSAsExpression:
+      case AST_NODE_TYPES.TSSatisfiesExpression:
+      case AST_NODE_TYPES.TSNonNullExpression:
+      case AST_NODE_TYPES.TSTypeAssertion:
+        return getStaticUrls(node.expression, seen);
+
+      case AST_NODE_TYPES.ConditionalExpression:
+        return [
+          ...getStaticUrls(node.consequent, seen),
+          ...getStaticUrls(node.alternate, seen),
+        ];
+
+      case AST_NODE_TYPES.LogicalExpression:
+        return [
+          ...getStaticUrls(node.left, seen),
+          ...getStaticUrls(node.right, seen),
+        ];
+
+      case AST_NODE_TYPES.Identifier: {
+        const init = getConstInitializer(node, context.sourceCode);
+        return init ? getStaticUrls(init, seen) : [];
+      }
+
+      case AST_NODE_TYPES.TemplateLiteral: {
+        const url = getTemplateUrl(node);
+        return url.value ? [url] : [];
+      }
+
+      case AST_NODE_TYPES.BinaryExpression: {
+        const prefix = node.operator === "+" ? getStaticPrefix(node) : "";
+        return prefix ? [{ value: prefix, isComplete: false }] : [];
+      }
+    }
+
+    const type = getType(node);
+    if (type?.isStringLiteral()) {
+      return [{ value: type.value, isComplete: true }];
+    }
+    if (type?.isUnion() && type.types.every((t) => t.isStringLiteral())) {
+      return type.types.flatMap((t) =>
+        t.isStringLiteral() ? [{ value: t.value, isComplete: true }] : []
+      );
+    }
+
+    return [];
+  }
+
+  function isRedirectObject(
+    node: TSESTree.Expression
+  ): RedirectObjectType | null {
+    if (
+      node.type === AST_NODE_TYPES.TSNonNullExpression ||
+      node.type === AST_NODE_TYPES.ChainExpression
+    ) {
+      return isRedirectObject(node.expression);
+    }
+
+    const type = getType(node);
+    if (type) {
+      if (hasTypeName(type, "Location")) {
+        return "location";
+      }
+      if (hasTypeName(type, "Window")) {
+        return "window";
+      }
+      if (hasTypeName(type, "typeof globalThis")) {
+        return "window";
+      }
+      // for our purposes, "Document" is the same as window as it also provides a "location" prop
+      if (hasTypeName(type, "Document")) {
+        return "window";
+      }
+    }
+
+    if (node.type === AST_NODE_TYPES.Identifier) {
+      const varInfo = trackedVariables.get(node.name);
+      if (varInfo) {
+        if (varInfo.isLocation) return "location";
+        if (varInfo.isNavigation) return "navigation";
+        if (varInfo.isWindow) return "window";
+      }
+
+      if (isGlobalIdentifier(node, context.sourceCode)) {
+        if (node.name === "location") {
+          return "location";
+        }
+        if (FRAME_WINDOW_NAMES.has(node.name) || node.name === "globalThis") {
+          return "window";
+        }
+        if (node.name === "navigation") {
+          return "navigation";
+        }
+      }
+    }
+
+    // `this` at the top level of a (worker) script is the global object
+    if (node.type === AST_NODE_TYPES.ThisExpression) {
+      const { variableScope } = context.sourceCode.getScope(node);
+      if (
+        variableScope.type === TSESLint.Scope.ScopeType.global ||
+        variableScope.type === TSESLint.Scope.ScopeType.module
+      ) {
+        return "window";
+      }
+    }
+
+    if (node.type === AST_NODE_TYPES.MemberExpression) {
+      const { object, property } = node;
+
+      if (
+        object.type === AST_NODE_TYPES.Identifier &&
+        property.type === AST_NODE_TYPES.Identifier
+      ) {
+        const isGlobal = isGlobalIdentifier(object, context.sourceCode);
+
+        if (property.name === "location" && isGlobal) {
+          if (
+            object.name === "window" ||
+            object.name === "document" ||
+            object.name === "globalThis"
+          ) {
+            return "location";
+          }
+        }
+
+        if (
+          object.name === "window" &&
+          property.name === "navigation" &&
+          isGlobal
+        ) {
+          return "navigation";
+        }
+      }
+
+      const propertyName = getPropertyName(node);
+
+      // iframe.contentWindow, iframe.contentDocument
+      if (
+        propertyName === "contentWindow" ||
+        propertyName === "contentDocument"
+      ) {
+        return "window";
+      }
+
+      const objectType = isRedirectObject(object);
+      if (objectType === "window") {
+        if (propertyName === "location") {
+          return "location";
+        }
+        if (propertyName === "navigation") {
+          return "navigation";
+        }
+        if (
+          (propertyName && FRAME_WINDOW_NAMES.has(propertyName)) ||
+          propertyName === "document"
+        ) {
+          return "window";
+        }
+        // frames[0], window[0]
+        if (node.computed && propertyName === null) {
+          return "window";
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Remembers variables that alias redirect objects, e.g. `const loc = location`
+   * Must be called for every VariableDeclarator in source order
+   */
+  function trackVariable(node: TSESTree.VariableDeclarator) {
+    if (node.id.type === AST_NODE_TYPES.Identifier && node.init) {
+      const objectType = isRedirectObject(node.init);
+      if (objectType) {
+        trackedVariables.set(node.id.name, {
+          node: node.id,
+          isLocation: objectType === "location",
+          isNavigation: objectType === "navigation",
+          isWindow: objectType === "window",
+        });
+      }
+    }
+  }
+
+  return {
+    checker,
+    getType,
+    getGlobalType,
+    hasTypeName,
+    hasTypeNameFromModule,
+    isStringLikeType,
+    hasBrand,
+    isTrustedType,
+    isTrustedFunctionCall,
+    isSafeUrlString,
+    getStaticUrls,
+    isValueSafe,
+    isRedirectObject,
+    trackVariable,
+  };
+}
+
+export type Analysis = ReturnType<typeof createAnalysis>;
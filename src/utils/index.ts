@@ -1,4 +1,9 @@
-import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  TSESLint,
+  type TSESTree,
+} from "@typescript-eslint/utils";
 import { SourceCode } from "@typescript-eslint/utils/ts-eslint";
 
 /**
@@ -21,6 +26,33 @@ export function isSafeLiteral(node: TSESTree.Node): boolean {
   return false;
 }
 
+/**
+ * URL schemes that execute code or render attacker-controlled documents
+ */
+export const DANGEROUS_URL_SCHEMES = ["javascript:", "data:", "vbscript:"];
+
+/**
+ * Gets the scheme of a URL string the way browsers parse it, e.g. "javascript:"
+ * Leading and trailing control characters and spaces are ignored and tabs and
+ * newlines are removed, so obfuscated values like " JaVa\tScRiPt:" are detected.
+ * Returns null for relative URLs
+ */
+export function getUrlScheme(value: string): string | null {
+  const normalized = value
+    .replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, "")
+    .replace(/[\t\n\r]/g, "")
+    .toLowerCase();
+
+  const match = /^([a-z][a-z0-9+.-]*:)/.exec(normalized);
+  if (match?.[1]) {
+    return match[1];
+  }
+
+  // Same heuristic as ensureTrustedUrl for potential browser parsing bugs
+  const lettersOnly = value.toLowerCase().replace(/[^a-z:]/g, "");
+  return lettersOnly.startsWith("javascript:") ? "javascript:" : null;
+}
+
 /**
  * Checks if an identifier refers to a global variable (not shadowed by local scope)
  */
@@ -28,8 +60,7 @@ export function isGlobalIdentifier(
   node: TSESTree.Identifier,
   sourceCode: SourceCode
 ): boolean {
-  const scope = sourceCode.getScope(node);
-  const variable = scope.set.get(node.name);
+  const variable = ASTUtils.findVariable(sourceCode.getScope(node), node);
 
   // If variable is not defined in any scope, it's global
   if (!variable) {
@@ -111,3 +142,336 @@ export function getOpenCallInfo(
 
   return null;
 }
+
+/**
+ * Gets the dotted path of an identifier or non-computed member expression chain
+ * E.g., appRouter.go -> "appRouter.go"
+ * Returns null if the chain contains anything else (calls, computed access, etc.)
+ */
+export function getMemberPath(node: TSESTree.Node): string | null {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  }
+
+  if (node.type === AST_NODE_TYPES.ThisExpression) {
+    return "this";
+  }
+
+  if (
+    node.type === AST_NODE_TYPES.MemberExpression &&
+    !node.computed &&
+    node.property.type === AST_NODE_TYPES.Identifier
+  ) {
+    const objectPath = getMemberPath(node.object);
+    return objectPath ? `${objectPath}.${node.property.name}` : null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolves an identifier to the import declaration or require() call it is
+ * bound to
+ * Returns the module specifier and the imported name ("default" for default
+ * imports, "*" for namespace imports and whole-module requires), or null if it
+ * is not an import binding
+ */
+export function getImportBinding(
+  node: TSESTree.Identifier | TSESTree.JSXIdentifier,
+  sourceCode: SourceCode
+): { source: string; imported: string } | null {
+  const variable = ASTUtils.findVariable(sourceCode.getScope(node), node.name);
+  const def = variable?.defs[0];
+
+  if (def?.type === TSESLint.Scope.DefinitionType.Variable) {
+    return getRequireBinding(def.node, def.name, sourceCode);
+  }
+
+  if (!def || def.type !== TSESLint.Scope.DefinitionType.ImportBinding) {
+    return null;
+  }
+
+  const specifier = def.node;
+  const declaration = specifier.parent;
+  if (declaration?.type !== AST_NODE_TYPES.ImportDeclaration) {
+    return null;
+  }
+
+  const source = declaration.source.value;
+
+  switch (specifier.type) {
+    case AST_NODE_TYPES.ImportDefaultSpecifier:
+      return { source, imported: "default" };
+    case AST_NODE_TYPES.ImportNamespaceSpecifier:
+      return { source, imported: "*" };
+    case AST_NODE_TYPES.ImportSpecifier:
+      return {
+        source,
+        imported:
+          specifier.imported.type === AST_NODE_TYPES.Identifier
+            ? specifier.imported.name
+            : specifier.imported.value,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves a variable declared from a CommonJS require() call
+ * Supports whole-module bindings (const mod = require("m")) and destructured
+ * ones (const { fn, other: alias } = require("m"))
+ */
+function getRequireBinding(
+  declarator: TSESTree.VariableDeclarator,
+  name: TSESTree.Identifier,
+  sourceCode: SourceCode
+): { source: string; imported: string } | null {
+  const init = declarator.init;
+  if (
+    init?.type !== AST_NODE_TYPES.CallExpression ||
+    init.callee.type !== AST_NODE_TYPES.Identifier ||
+    init.callee.name !== "require" ||
+    !isGlobalIdentifier(init.callee, sourceCode) ||
+    init.arguments.length !== 1
+  ) {
+    return null;
+  }
+
+  const [specifier] = init.arguments;
+  if (
+    specifier?.type !== AST_NODE_TYPES.Literal ||
+    typeof specifier.value !== "string"
+  ) {
+    return null;
+  }
+
+  const source = specifier.value;
+
+  if (declarator.id === name) {
+    return { source, imported: "*" };
+  }
+
+  if (declarator.id.type !== AST_NODE_TYPES.ObjectPattern) {
+    return null;
+  }
+
+  for (const property of declarator.id.properties) {
+    if (property.type !== AST_NODE_TYPES.Property) {
+      continue;
+    }
+
+    const value =
+      property.value.type === AST_NODE_TYPES.AssignmentPattern
+        ? property.value.left
+        : property.value;
+    if (value !== name) {
+      continue;
+    }
+
+    const imported = getStaticPropertyKey(property);
+    return imported === null ? null : { source, imported };
+  }
+
+  return null;
+}
+
+/**
+ * Gets the object and property a binding is destructured from, when it is a
+ * direct property of the pattern being assigned
+ * E.g., const { search } = location -> location and "search"
+ */
+export function getDestructuredProperty(
+  node: TSESTree.Identifier
+): { object: TSESTree.Expression; property: string } | null {
+  const parent =
+    node.parent?.type === AST_NODE_TYPES.AssignmentPattern &&
+    node.parent.left === node
+      ? node.parent.parent
+      : node.parent;
+
+  if (
+    parent?.type !== AST_NODE_TYPES.Property ||
+    parent.parent?.type !== AST_NODE_TYPES.ObjectPattern
+  ) {
+    return null;
+  }
+
+  const pattern = parent.parent;
+  const declaration = pattern.parent;
+  let object: TSESTree.Expression | null = null;
+  if (
+    declaration?.type === AST_NODE_TYPES.VariableDeclarator &&
+    declaration.id === pattern
+  ) {
+    object = declaration.init;
+  } else if (
+    declaration?.type === AST_NODE_TYPES.AssignmentExpression &&
+    declaration.left === pattern
+  ) {
+    object = declaration.right;
+  }
+
+  const property = getStaticPropertyKey(parent);
+  return object && property !== null ? { object, property } : null;
+}
+
+/**
+ * Gets the name of a non-computed or string-literal property key
+ */
+function getStaticPropertyKey(property: TSESTree.Property): string | null {
+  if (!property.computed && property.key.type === AST_NODE_TYPES.Identifier) {
+    return property.key.name;
+  }
+
+  if (
+    property.key.type === AST_NODE_TYPES.Literal &&
+    typeof property.key.value === "string"
+  ) {
+    return property.key.value;
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the callee of a call to the imported function it refers to
+ * Supports named, renamed and default imports (fn(...)) as well as
+ * namespace imports (ns.fn(...))
+ */
+export function getImportedCallee(
+  callee: TSESTree.Node,
+  sourceCode: SourceCode
+): { source: string; name: string } | null {
+  if (callee.type === AST_NODE_TYPES.Identifier) {
+    const binding = getImportBinding(callee, sourceCode);
+    if (binding && binding.imported !== "*") {
+      return { source: binding.source, name: binding.imported };
+    }
+    return null;
+  }
+
+  if (
+    callee.type === AST_NODE_TYPES.MemberExpression &&
+    callee.object.type === AST_NODE_TYPES.Identifier
+  ) {
+    const propertyName = getPropertyName(callee);
+    if (!propertyName) {
+      return null;
+    }
+
+    const binding = getImportBinding(callee.object, sourceCode);
+    if (binding?.imported === "*") {
+      return { source: binding.source, name: propertyName };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gets the statically known property name of a member expression
+ * E.g., a.b -> "b", a["b"] -> "b", a[b] -> null
+ */
+export function getPropertyName(
+  node: TSESTree.MemberExpression
+): string | null {
+  if (!node.computed && node.property.type === AST_NODE_TYPES.Identifier) {
+    return node.property.name;
+  }
+
+  if (
+    node.computed &&
+    node.property.type === AST_NODE_TYPES.Literal &&
+    typeof node.property.value === "string"
+  ) {
+    return node.property.value;
+  }
+
+  return null;
+}
+
+/**
+ * Resolves an identifier bound by a `const` declaration to its initializer
+ * Returns null for other bindings (let/var, parameters, destructuring, imports)
+ */
+export function getConstInitializer(
+  node: TSESTree.Identifier,
+  sourceCode: SourceCode
+): TSESTree.Expression | null {
+  const variable = ASTUtils.findVariable(sourceCode.getScope(node), node);
+  if (!variable || variable.defs.length !== 1) {
+    return null;
+  }
+
+  const def = variable.defs[0];
+  if (
+    def?.type !== TSESLint.Scope.DefinitionType.Variable ||
+    def.parent.kind !== "const" ||
+    def.node.id !== def.name
+  ) {
+    return null;
+  }
+
+  return def.node.init;
+}
+
+/**
+ * Evaluates an expression to a string if it is statically known
+ * Supports string literals, expression-free template literals, `+` concatenation,
+ * const bindings and type assertion wrappers
+ */
+export function getStaticStringValue(
+  node: TSESTree.Node,
+  sourceCode: SourceCode,
+  seen = new Set<TSESTree.Node>()
+): string | null {
+  if (seen.has(node)) {
+    return null;
+  }
+  seen.add(node);
+
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+      return typeof node.value === "string" ? node.value : null;
+
+    case AST_NODE_TYPES.TemplateLiteral:
+      return node.expressions.length === 0
+        ? node.quasis[0]?.value.cooked ?? null
+        : null;
+
+    case AST_NODE_TYPES.BinaryExpression: {
+      if (node.operator !== "+") {
+        return null;
+      }
+
+      const left = getStaticStringValue(node.left, sourceCode, seen);
+      const right = getStaticStringValue(node.right, sourceCode, seen);
+      return left !== null && right !== null ? left + right : null;
+    }
+
+    case AST_NODE_TYPES.TSAsExpression:
+    case AST_NODE_TYPES.TSSatisfiesExpression:
+    case AST_NODE_TYPES.TSNonNullExpression:
+    case AST_NODE_TYPES.TSTypeAssertion:
+      return getStaticStringValue(node.expression, sourceCode, seen);
+
+    case AST_NODE_TYPES.Identifier: {
+      const init = getConstInitializer(node, sourceCode);
+      return init ? getStaticStringValue(init, sourceCode, seen) : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Unwraps an optional chain, e.g. (a?.b) -> a?.b member expression
+ */
+export function unwrapChainExpression(node: TSESTree.Node): TSESTree.Node {
+  if (node.type === AST_NODE_TYPES.ChainExpression) {
+    return node.expression;
+  }
+  return node;
+}
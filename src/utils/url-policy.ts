@@ -0,0 +1,262 @@
+import type { TSESLint } from "@typescript-eslint/utils";
+import type { JSONSchema4 } from "@typescript-eslint/utils/json-schema";
+import {
+  compileUrlOptions,
+  validateUrl,
+  type CompiledUrlOptions,
+} from "../runtime/ensure-trusted-url.js";
+import { UntrustedUrlError } from "../runtime/untrusted-url-error.js";
+import type { UrlPolicy } from "../runtime/url-policy.js";
+import { getUrlScheme } from "./index.js";
+
+export type { UrlPolicy };
+
+/**
+ * The key of the plugin's shared settings in the ESLint config
+ */
+export const SETTINGS_KEY = "dom-security";
+
+/**
+ * Stands in for the current origin when URLs are checked at lint time
+ */
+const CURRENT_ORIGIN = "https://current-origin.invalid";
+
+const STRING_LIST_SCHEMA: JSONSchema4 = {
+  type: "array",
+  items: { type: "string" },
+};
+
+export const URL_POLICY_SCHEMA: JSONSchema4 = {
+  type: "object",
+  properties: {
+    allowedOrigins: STRING_LIST_SCHEMA,
+    allowedProtocols: {
+      type: "array",
+      items: { type: "string", pattern: "^[a-zA-Z][a-zA-Z0-9+.-]*:$" },
+    },
+    allowedPaths: STRING_LIST_SCHEMA,
+    deniedPaths: STRING_LIST_SCHEMA,
+    pathRules: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          origin: { type: "string" },
+          allowedPaths: STRING_LIST_SCHEMA,
+          deniedPaths: STRING_LIST_SCHEMA,
+        },
+        required: ["origin"],
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Checks a value against a JSON schema that only uses the keywords of
+ * URL_POLICY_SCHEMA, returning the first problem
+ */
+function getSchemaError(
+  value: unknown,
+  schema: JSONSchema4,
+  path: string
+): string | null {
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return `${path} must be an object`;
+      }
+
+      const required = Array.isArray(schema.required) ? schema.required : [];
+      const missing = required.find((key) => !(key in value));
+      if (missing !== undefined) {
+        return `${path}.${missing} is required`;
+      }
+
+      for (const [key, property] of Object.entries(value)) {
+        const propertySchema = schema.properties?.[key];
+        if (!propertySchema) {
+          if (schema.additionalProperties === false) {
+            return `${path} has an unknown property: ${key}`;
+          }
+          continue;
+        }
+
+        const error = getSchemaError(
+          property,
+          propertySchema,
+          `${path}.${key}`
+        );
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return `${path} must be an array`;
+      }
+
+      const { items } = schema;
+      if (!items || Array.isArray(items)) {
+        return null;
+      }
+
+      for (const [i, item] of value.entries()) {
+        const error = getSchemaError(item, items, `${path}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+
+    case "string":
+      if (typeof value !== "string") {
+        return `${path} must be a string`;
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return `${path} must match ${schema.pattern}: ${value}`;
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Gets the URL policy from the rule options, or else from the shared
+ * settings: `settings: { "dom-security": { urlPolicy } }`
+ * The settings are checked against URL_POLICY_SCHEMA, like the rule options.
+ *
+ * @throws {TypeError} If the policy in the settings doesn't match the schema
+ */
+export function getUrlPolicy(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  option: UrlPolicy | undefined
+): UrlPolicy | undefined {
+  if (option) {
+    return option;
+  }
+
+  const settings: unknown = context.settings[SETTINGS_KEY];
+  if (
+    typeof settings !== "object" ||
+    settings === null ||
+    !("urlPolicy" in settings) ||
+    settings.urlPolicy === undefined
+  ) {
+    return undefined;
+  }
+
+  const error = getSchemaError(
+    settings.urlPolicy,
+    URL_POLICY_SCHEMA,
+    `settings["${SETTINGS_KEY}"].urlPolicy`
+  );
+  if (error) {
+    throw new TypeError(error);
+  }
+
+  return settings.urlPolicy as UrlPolicy;
+}
+
+/**
+ * A statically known URL, or the statically known start of one
+ */
+export interface StaticUrl {
+  value: string;
+
+  /**
+   * False if only the start of the URL is known, e.g. `https://example.com/${path}`
+   */
+  isComplete: boolean;
+}
+
+/**
+ * Checks if the start of a URL determines its origin: it is relative, or its
+ * host is followed by a path, query or fragment
+ */
+function hasStaticOrigin(prefix: string): boolean {
+  const isAbsolute = !!getUrlScheme(prefix) || /^\s*[/\\]{2}/.test(prefix);
+  const authority = prefix.replace(/^\s*[a-z][a-z0-9+.-]*:/i, "");
+  return !isAbsolute || /^[/\\]*[^/\\?#]+[/\\?#]/.test(authority);
+}
+
+/**
+ * Checks statically known URLs against a URL policy
+ * The URLs are validated like ensureTrustedUrl validates them at runtime, with
+ * relative URLs resolved against a stand-in for the current origin. Relative
+ * URLs take the protocol of the page, which is not known at lint time, so
+ * their protocol is not checked. If only the start of a URL is known, its
+ * origin has to be known and its path is not checked.
+ *
+ * @throws {TypeError} If an origin pattern of the policy is invalid
+ */
+export function createUrlPolicyCheck(policy: UrlPolicy) {
+  const withCurrentOrigin = (options: UrlPolicy): CompiledUrlOptions =>
+    compileUrlOptions({
+      ...options,
+      currentOrigin: CURRENT_ORIGIN,
+      allowedOrigins: [...(options.allowedOrigins ?? []), CURRENT_ORIGIN],
+    });
+  const compile = (options: UrlPolicy) => ({
+    absolute: withCurrentOrigin(options),
+    relative: withCurrentOrigin({ ...options, allowedProtocols: undefined }),
+  });
+
+  const compiled = compile(policy);
+  const compiledOrigins = compile({
+    allowedOrigins: policy.allowedOrigins,
+    allowedProtocols: policy.allowedProtocols,
+  });
+
+  /**
+   * Gets the error message if the URL is not allowed by the policy
+   */
+  return function getViolation({
+    value,
+    isComplete,
+  }: StaticUrl): string | null {
+    if (!isComplete && !hasStaticOrigin(value)) {
+      return `Origin of URL starting with ${value} is not known statically`;
+    }
+
+    const { absolute, relative } = isComplete ? compiled : compiledOrigins;
+    try {
+      validateUrl(value, getUrlScheme(value) ? absolute : relative);
+      return null;
+    } catch (error) {
+      if (error instanceof UntrustedUrlError) {
+        return error.message;
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Checks statically known URLs at sinks for the `checkLiteralUrls` option
+ * Like createUrlPolicyCheck, but protocol-relative URLs are never allowed and
+ * only `https:` URLs are, unless the policy lists its own protocols. Without a
+ * policy, only relative URLs are allowed.
+ */
+export function createLiteralUrlCheck(policy: UrlPolicy = {}) {
+  const getPolicyViolation = createUrlPolicyCheck({
+    ...policy,
+    allowedProtocols: policy.allowedProtocols ?? ["https:"],
+  });
+
+  return function getViolation(url: StaticUrl): string | null {
+    // The protocol depends on the page, e.g. http: in development
+    if (/^[\u0000-\u0020]*[/\\]{2}/.test(url.value)) {
+      return `Protocol-relative URL not allowed: ${url.value}`;
+    }
+
+    return getPolicyViolation(url);
+  };
+}
@@ -0,0 +1,141 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-eval.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+declare var someVariable: string;
+declare var callback: () => void;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const sinks = [
+  ["eval(CODE);", "eval()", "unsafeEval"],
+  ["new Function(CODE);", "Function()", "unsafeEval"],
+  ["Function(CODE);", "Function()", "unsafeEval"],
+  ["setTimeout(CODE, 100);", "setTimeout()", "unsafeTimer"],
+  ["setInterval(CODE, 100);", "setInterval()", "unsafeTimer"],
+  ["setImmediate(CODE);", "setImmediate()", "unsafeTimer"],
+  ["execScript(CODE);", "execScript()", "unsafeEval"],
+  ["window.eval(CODE);", "eval()", "unsafeEval"],
+  ["window.setTimeout(CODE);", "setTimeout()", "unsafeTimer"],
+  ['globalThis["eval"](CODE);', "eval()", "unsafeEval"],
+  ["(0, eval)(CODE);", "eval()", "unsafeEval"],
+] as const;
+
+ruleTester.run("no-unsafe-eval", rule, {
+  valid: [
+    ...sinks.flatMap(([sink]) => [
+      `${PREAMBLE} ${sink.replace("CODE", '"console.log(1)"')}`,
+      `${PREAMBLE} ${sink.replace("CODE", "`console.log(1)`")}`,
+    ]),
+    // Functions passed to timers
+    `${PREAMBLE} setTimeout(() => console.log(someVariable), 100);`,
+    `${PREAMBLE} setInterval(function () {}, 100);`,
+    `${PREAMBLE} window.setTimeout(callback);`,
+    `${PREAMBLE} setTimeout(callback.bind(null));`,
+    // Untyped timer callbacks
+    `${PREAMBLE} declare var handler: any; setTimeout(handler);`,
+    // Constants
+    `
+      ${PREAMBLE}
+      const CODE = "init()";
+      eval(CODE);
+      eval(someVariable ? "a()" : CODE);
+    `,
+    // Non-string arguments
+    `${PREAMBLE} eval(42);`,
+    // Local functions that shadow the globals
+    `
+      ${PREAMBLE}
+      function run(eval: (code: string) => void, setTimeout: (code: string) => void) {
+        eval(someVariable);
+        setTimeout(someVariable);
+      }
+    `,
+    // Methods of other objects
+    `
+      ${PREAMBLE}
+      declare var scheduler: { setTimeout(code: string): void; eval(code: string): void };
+      scheduler.setTimeout(someVariable);
+      scheduler.eval(someVariable);
+    `,
+    // jQuery preset
+    {
+      code: `
+        import $ from "jquery";
+        ${PREAMBLE}
+        $.globalEval("window.ready = true;");
+        $.each([1, 2], callback);
+      `,
+      options: [{ presets: ["jquery"] }],
+    },
+    `
+      import $ from "jquery";
+      ${PREAMBLE}
+      $.globalEval(someVariable);
+    `,
+  ],
+  invalid: [
+    ...sinks.flatMap(([sink, name, messageId]) =>
+      ["someVariable", "`run(${someVariable})`", '"run(" + someVariable'].map(
+        (value) => ({
+          code: `${PREAMBLE} ${sink.replace("CODE", value)}`,
+          errors: [{ messageId, data: { sink: name } }],
+        })
+      )
+    ),
+    // Every argument of Function is code
+    {
+      code: `${PREAMBLE} new Function("a", someVariable, "return a;");`,
+      errors: [{ messageId: "unsafeEval" }],
+    },
+    // Windows through aliases and the frame hierarchy
+    {
+      code: `
+        ${PREAMBLE}
+        const w = window;
+        w.eval(someVariable);
+        parent.setInterval(someVariable);
+        document.querySelector("iframe")!.contentWindow!.eval(someVariable);
+      `,
+      errors: [
+        { messageId: "unsafeEval", data: { sink: "eval()" } },
+        { messageId: "unsafeTimer", data: { sink: "setInterval()" } },
+        { messageId: "unsafeEval", data: { sink: "eval()" } },
+      ],
+    },
+    {
+      code: `${PREAMBLE} declare var code: any; eval(code);`,
+      errors: [{ messageId: "unsafeEval" }],
+    },
+    {
+      code: `
+        import jQuery from "jquery";
+        ${PREAMBLE}
+        const $ = jQuery;
+        $.globalEval(someVariable);
+        jQuery.globalEval(\`init(\${someVariable})\`);
+      `,
+      options: [{ presets: ["jquery"] }],
+      errors: [
+        { messageId: "unsafeEval", data: { sink: "jQuery.globalEval()" } },
+        { messageId: "unsafeEval", data: { sink: "jQuery.globalEval()" } },
+      ],
+    },
+  ],
+});
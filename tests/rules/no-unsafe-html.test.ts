@@ -0,0 +1,260 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-html.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+type TrustedHtml<T extends string = string> = T & { readonly __brand: "TrustedHtml" };
+declare function sanitize(html: string): TrustedHtml;
+declare var someVariable: string;
+declare var count: number;
+declare var element: HTMLElement;
+declare var iframe: HTMLIFrameElement;
+declare var range: Range;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const sinks = [
+  ["element.innerHTML = VALUE;", "innerHTML"],
+  ["element.outerHTML = VALUE;", "outerHTML"],
+  ['element.insertAdjacentHTML("beforeend", VALUE);', "insertAdjacentHTML()"],
+  ["document.write(VALUE);", "document.write()"],
+  ["document.writeln(VALUE);", "document.writeln()"],
+  ["iframe.contentDocument!.write(VALUE);", "document.write()"],
+  ["range.createContextualFragment(VALUE);", "createContextualFragment()"],
+  ["iframe.srcdoc = VALUE;", "srcdoc"],
+  ['iframe.setAttribute("srcdoc", VALUE);', "srcdoc"],
+  [
+    'element.append(...new DOMParser().parseFromString(VALUE, "text/html").body.childNodes);',
+    "DOMParser#parseFromString()",
+  ],
+] as const;
+
+ruleTester.run("no-unsafe-html", rule, {
+  valid: [
+    ...sinks.flatMap(([sink]) => [
+      `${PREAMBLE} ${sink.replace("VALUE", '"<p>Loading…</p>"')}`,
+      `${PREAMBLE} ${sink.replace("VALUE", "sanitize(someVariable)")}`,
+      `${PREAMBLE} ${sink.replace("VALUE", "`<span>${count}</span>`")}`,
+    ]),
+    // Clearing and text content
+    `${PREAMBLE} element.innerHTML = "";`,
+    `${PREAMBLE} element.textContent = someVariable;`,
+    `${PREAMBLE} element.insertAdjacentText("beforeend", someVariable);`,
+    // Constants and every branch safe
+    `
+      ${PREAMBLE}
+      const SPINNER = "<div class='spinner'></div>";
+      element.innerHTML = someVariable ? SPINNER : "<p>Done</p>";
+    `,
+    `
+      ${PREAMBLE}
+      declare var items: TrustedHtml[];
+      element.innerHTML = \`<ul>\${items[0]}</ul>\`;
+      element.innerHTML = "<ul>" + sanitize(someVariable) + "</ul>";
+    `,
+    // Validated with the runtime
+    `
+      import { ensureTrustedHtml } from "eslint-plugin-dom-security/runtime";
+      ${PREAMBLE}
+      element.innerHTML = ensureTrustedHtml(someVariable, { sanitize: (html) => html });
+    `,
+    {
+      code: `
+        import { clean } from "@our/sanitizer";
+        ${PREAMBLE}
+        element.innerHTML = clean(someVariable);
+      `,
+      options: [
+        { trustedFunctions: [{ from: "@our/sanitizer", name: "clean" }] },
+      ],
+    },
+    // DOM Trusted Types
+    `
+      ${PREAMBLE}
+      declare class TrustedScriptURL { private brand: true; }
+      declare class TrustedHTML { private brand: true; }
+      interface TrustedTypePolicy {
+        createScriptURL(input: string): TrustedScriptURL;
+        createHTML(input: string): TrustedHTML;
+      }
+      declare var policy: TrustedTypePolicy;
+      element.innerHTML = policy.createHTML(someVariable);
+      iframe.srcdoc = policy.createHTML(someVariable);
+    `,
+    // Writing to things that aren't documents
+    `
+      ${PREAMBLE}
+      declare var stream: { write(chunk: string): void };
+      stream.write(someVariable);
+    `,
+    // Parsed documents that are not inserted
+    `
+      ${PREAMBLE}
+      const doc = new DOMParser().parseFromString(someVariable, "text/html");
+      const title = doc.title;
+    `,
+    // jQuery preset
+    {
+      code: `
+        import $ from "jquery";
+        ${PREAMBLE}
+        $("#list").append("<li>Loading…</li>");
+        $("#count").html(\`<b>\${count}</b>\`);
+        $(element).append($("<hr>"), element);
+        $("#title").text(someVariable);
+        $("#content").html(sanitize(someVariable));
+        $("#items").html((index: number) => "<li>" + index + "</li>");
+        $(document).ready(() => {});
+      `,
+      options: [{ presets: ["jquery"] }],
+    },
+    {
+      code: `
+        import $ from "jquery";
+        ${PREAMBLE}
+        $("#" + someVariable).hide();
+        $(\`.item[data-id="\${someVariable}"]\`).hide();
+        $(count ? "#a" : "#b").hide();
+        $(".item").each(function () {
+          $(this).hide();
+        });
+        function show(el) {
+          $(el).show();
+        }
+        $(element);
+        $(window).on("resize", () => {});
+        $(() => {});
+      `,
+      options: [{ presets: ["jquery"] }],
+    },
+    `
+      import $ from "jquery";
+      ${PREAMBLE}
+      $(someVariable);
+      $("#content").html(someVariable);
+    `,
+  ],
+  invalid: [
+    ...sinks.flatMap(([sink, name]) =>
+      ["someVariable", "`<p>${someVariable}</p>`", '"<p>" + someVariable'].map(
+        (value) => ({
+          code: `${PREAMBLE} ${sink.replace("VALUE", value)}`,
+          errors: [{ messageId: "unsafeHtml" as const, data: { sink: name } }],
+        })
+      )
+    ),
+    // Only some branches are safe
+    {
+      code: `${PREAMBLE} element.innerHTML = count > 0 ? someVariable : "<p>None</p>";`,
+      errors: [{ messageId: "unsafeHtml" }],
+    },
+    // Every argument of document.write is checked
+    {
+      code: `${PREAMBLE} document.write("<p>", someVariable, "</p>");`,
+      errors: [{ messageId: "unsafeHtml" }],
+    },
+    // A local function that shares the name is not trusted
+    {
+      code: `
+        ${PREAMBLE}
+        function ensureTrustedHtml(html: string) { return html; }
+        element.innerHTML = ensureTrustedHtml(someVariable);
+      `,
+      errors: [{ messageId: "unsafeHtml" }],
+    },
+    // Parsed documents whose nodes are inserted
+    {
+      code: `
+        ${PREAMBLE}
+        const doc = new DOMParser().parseFromString(someVariable, "text/html");
+        const content = doc.body.firstElementChild!;
+        element.appendChild(content);
+      `,
+      errors: [
+        {
+          messageId: "unsafeHtml",
+          data: { sink: "DOMParser#parseFromString()" },
+        },
+      ],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(someVariable, "text/html");
+        element.replaceWith(document.importNode(doc.documentElement, true));
+      `,
+      errors: [{ messageId: "unsafeHtml" }],
+    },
+    // jQuery preset
+    {
+      code: `
+        import $ from "jquery";
+        ${PREAMBLE}
+        $(someVariable);
+        $("#content").html(someVariable);
+        $("#list").find("ul").append(\`<li>\${someVariable}</li>\`);
+        const $list = $("#list");
+        $list.before("<p>", someVariable);
+      `,
+      options: [{ presets: ["jquery"] }],
+      errors: [
+        { messageId: "unsafeHtml", data: { sink: "jQuery()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery#html()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery#append()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery#before()" } },
+      ],
+    },
+    {
+      code: `
+        import $ from "jquery";
+        ${PREAMBLE}
+        $("<li>" + someVariable + "</li>");
+        $(\`  <img src="\${someVariable}">\`);
+        $(count ? "#empty" : someVariable);
+      `,
+      options: [{ presets: ["jquery"] }],
+      errors: [
+        { messageId: "unsafeHtml", data: { sink: "jQuery()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery()" } },
+      ],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        interface JQuery<TElement = HTMLElement> {
+          html(html: string): this;
+        }
+        interface JQueryStatic {
+          (selector: string): JQuery;
+        }
+        declare var jq: JQueryStatic;
+        function render(target: JQuery<HTMLDivElement>) {
+          target.html(someVariable);
+          jq(someVariable);
+        }
+      `,
+      options: [{ presets: ["jquery"] }],
+      errors: [
+        { messageId: "unsafeHtml", data: { sink: "jQuery#html()" } },
+        { messageId: "unsafeHtml", data: { sink: "jQuery()" } },
+      ],
+    },
+  ],
+});
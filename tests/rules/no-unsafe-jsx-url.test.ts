@@ -0,0 +1,175 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-jsx-url.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+type TrustedUrl<T extends string = string> = T & { readonly __brand: "TrustedUrl" };
+declare function ensureTrustedUrl<T extends string>(url: T): TrustedUrl<T>;
+declare var someVariable: string;
+declare var trustedUrl: TrustedUrl;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const propSinks = [
+  "<a href={URL} />",
+  "<area href={URL} />",
+  "<iframe src={URL} />",
+  "<form action={URL} />",
+  "<button formAction={URL} />",
+  "<use xlinkHref={URL} />",
+  "<use xlink:href={URL} />",
+  "<video poster={URL} />",
+  "<embed src={URL} />",
+  "<my-frame src={URL} />",
+];
+
+const linkOptions = [
+  {
+    components: [
+      { element: "Link", props: ["to"] },
+      { from: "next/link", name: "default", props: ["href"] },
+    ],
+  },
+];
+
+ruleTester.run("no-unsafe-jsx-url", rule, {
+  valid: [
+    ...propSinks.flatMap((sink) => [
+      `${PREAMBLE} ${sink.replace("URL", '"/dashboard"')}`,
+      `${PREAMBLE} ${sink.replace("URL", "`/users/${someVariable}`")}`,
+      `${PREAMBLE} ${sink.replace("URL", "ensureTrustedUrl(someVariable)")}`,
+      `${PREAMBLE} ${sink.replace("URL", "trustedUrl")}`,
+    ]),
+    // String attribute values
+    `${PREAMBLE} <a href="https://example.com">Example</a>`,
+    // Props without URLs
+    `${PREAMBLE} <a title={someVariable} className={someVariable} />`,
+    // Attributes without a value
+    `${PREAMBLE} <a href />`,
+    `${PREAMBLE} <a href={/* later */} />`,
+    // Components are only checked when configured
+    `${PREAMBLE} declare var Link: any; <Link to={someVariable} href={someVariable} />`,
+    // Constants
+    `
+      ${PREAMBLE}
+      const HELP_URL = "https://help.example.com";
+      <a href={HELP_URL}>Help</a>
+    `,
+    // Configured components
+    {
+      code: `
+        ${PREAMBLE}
+        declare function Link(props: { to: string | { pathname: string } }): null;
+        <>
+          <Link to="/home" />
+          <Link to={ensureTrustedUrl(someVariable)} />
+          <Link to={{ pathname: "/home" }} />
+        </>
+      `,
+      options: linkOptions,
+    },
+    // Import-bound components must come from the configured module
+    {
+      code: `
+        import NextLink from "./link";
+        ${PREAMBLE}
+        <NextLink href={someVariable} />
+      `,
+      options: linkOptions,
+    },
+  ],
+  invalid: [
+    ...propSinks.flatMap((sink) =>
+      [
+        "someVariable",
+        "`${someVariable}/page`",
+        "`/${someVariable}`",
+        '"javascript:alert(1)"',
+      ].map((value) => ({
+        code: `${PREAMBLE} ${sink.replace("URL", value)}`,
+        errors: [{ messageId: "unsafeJsxUrl" as const }],
+      }))
+    ),
+    {
+      code: `${PREAMBLE} <a href="javascript:void(0)">Click</a>`,
+      errors: [
+        {
+          messageId: "unsafeJsxUrl",
+          data: { prop: "href", element: "a" },
+        },
+      ],
+    },
+    {
+      code: `${PREAMBLE} <a href={someVariable}><img src={someVariable} /></a>`,
+      errors: [
+        { messageId: "unsafeJsxUrl", data: { prop: "href", element: "a" } },
+        { messageId: "unsafeJsxUrl", data: { prop: "src", element: "img" } },
+      ],
+    },
+    // Schemes outside the allowlist
+    {
+      code: `${PREAMBLE} <a href="ftp://example.com/file" />`,
+      options: [{ allowedSchemes: ["http:", "https:"] }],
+      errors: [{ messageId: "unsafeJsxUrl" }],
+    },
+    // Configured components
+    {
+      code: `
+        ${PREAMBLE}
+        declare function Link(props: { to: string }): null;
+        <Link to={someVariable} />
+      `,
+      options: linkOptions,
+      errors: [
+        { messageId: "unsafeJsxUrl", data: { prop: "to", element: "Link" } },
+      ],
+    },
+    {
+      code: `
+        import NextLink from "next/link";
+        import * as Next from "next/link";
+        ${PREAMBLE}
+        <>
+          <NextLink href={someVariable} />
+          <Next.default href={someVariable} />
+        </>
+      `,
+      options: linkOptions,
+      errors: [
+        {
+          messageId: "unsafeJsxUrl",
+          data: { prop: "href", element: "NextLink" },
+        },
+        {
+          messageId: "unsafeJsxUrl",
+          data: { prop: "href", element: "Next.default" },
+        },
+      ],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        declare const UI: { Link: (props: { href: string }) => null };
+        <UI.Link href={someVariable} />
+      `,
+      options: [{ components: [{ element: "UI.Link", props: ["href"] }] }],
+      errors: [{ messageId: "unsafeJsxUrl" }],
+    },
+  ],
+});
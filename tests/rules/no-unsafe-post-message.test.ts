@@ -0,0 +1,137 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-post-message.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+type TrustedUrl<T extends string = string> = T & { readonly __brand: "TrustedUrl" };
+type TrustedOrigin = string & { readonly __brand: "TrustedOrigin" };
+declare var payload: { token: string };
+declare var someVariable: string;
+declare var iframe: HTMLIFrameElement;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const receivers = [
+  "parent",
+  "opener!",
+  "top!",
+  "window.parent",
+  "iframe.contentWindow!",
+];
+
+ruleTester.run("no-unsafe-post-message", rule, {
+  valid: [
+    ...receivers.flatMap((receiver) => [
+      `${PREAMBLE} ${receiver}.postMessage(payload, "https://example.com");`,
+      `${PREAMBLE} ${receiver}.postMessage(payload, location.origin);`,
+      `${PREAMBLE} ${receiver}.postMessage(payload, { targetOrigin: "/" });`,
+      `${PREAMBLE} ${receiver}.postMessage(payload);`,
+    ]),
+    // Branded and constant origins
+    `
+      ${PREAMBLE}
+      declare var embedOrigin: TrustedOrigin;
+      declare var embedUrl: TrustedUrl;
+      const CHILD_ORIGIN = "https://child.example.com";
+      iframe.contentWindow!.postMessage(payload, embedOrigin);
+      iframe.contentWindow!.postMessage(payload, embedUrl);
+      iframe.contentWindow!.postMessage(payload, CHILD_ORIGIN);
+    `,
+    `
+      ${PREAMBLE}
+      declare var env: "https://a.example.com" | "https://b.example.com";
+      parent.postMessage(payload, env);
+    `,
+    `
+      import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+      ${PREAMBLE}
+      parent.postMessage(payload, ensureTrustedUrl(someVariable));
+    `,
+    // Constant messages with the option
+    {
+      code: `
+        ${PREAMBLE}
+        const READY = { type: "ready", version: 2 };
+        parent.postMessage("ready", "*");
+        parent.postMessage({ type: "resize", height: -1, ok: true }, "*");
+        parent.postMessage(READY, "*");
+        parent.postMessage([\`ping\`, null], { targetOrigin: "*" });
+      `,
+      options: [{ allowWildcardForConstantMessages: true }],
+    },
+    // Workers, ports and other objects
+    `
+      ${PREAMBLE}
+      declare var worker: Worker;
+      declare var port: MessagePort;
+      declare var channel: { postMessage(message: unknown, origin: string): void };
+      worker.postMessage(payload);
+      port.postMessage(payload);
+      channel.postMessage(payload, "*");
+    `,
+  ],
+  invalid: [
+    ...receivers.map((receiver) => ({
+      code: `${PREAMBLE} ${receiver}.postMessage(payload, "*");`,
+      errors: [{ messageId: "wildcardTargetOrigin" as const }],
+    })),
+    ...receivers.map((receiver) => ({
+      code: `${PREAMBLE} ${receiver}.postMessage(payload, someVariable);`,
+      errors: [{ messageId: "untrustedTargetOrigin" as const }],
+    })),
+    {
+      code: `${PREAMBLE} parent.postMessage(payload, { targetOrigin: "*" });`,
+      errors: [{ messageId: "wildcardTargetOrigin" }],
+    },
+    {
+      code: `${PREAMBLE} parent.postMessage(payload, \`https://\${someVariable}\`);`,
+      errors: [{ messageId: "untrustedTargetOrigin" }],
+    },
+    // Aliases
+    {
+      code: `
+        ${PREAMBLE}
+        const target = iframe.contentWindow!;
+        const w = window;
+        target.postMessage(payload, "*");
+        w.opener.postMessage(payload, "*");
+      `,
+      errors: [
+        { messageId: "wildcardTargetOrigin" },
+        { messageId: "wildcardTargetOrigin" },
+      ],
+    },
+    // Wildcards are only allowed for constant messages
+    {
+      code: `
+        ${PREAMBLE}
+        parent.postMessage({ type: "token", token: payload.token }, "*");
+        parent.postMessage(\`height:\${someVariable}\`, "*");
+      `,
+      options: [{ allowWildcardForConstantMessages: true }],
+      errors: [
+        { messageId: "wildcardTargetOrigin" },
+        { messageId: "wildcardTargetOrigin" },
+      ],
+    },
+    {
+      code: `${PREAMBLE} parent.postMessage("ready", "*");`,
+      errors: [{ messageId: "wildcardTargetOrigin" }],
+    },
+  ],
+});
@@ -1,4 +1,12 @@
-import { RuleTester, TestCaseError } from "@typescript-eslint/rule-tester";
+import {
+  RuleTester,
+  type InvalidTestCase,
+  type TestCaseError,
+} from "@typescript-eslint/rule-tester";
+import type {
+  InferMessageIdsTypeFromRule,
+  InferOptionsTypeFromRule,
+} from "@typescript-eslint/utils/eslint-utils";
 import { describe, it, afterAll } from "vitest";
 import rule from "../../src/rules/no-unsafe-redirect.js";
 
@@ -25,11 +33,92 @@ const ruleTester = new RuleTester({
   },
 });
 
-const defaultErrors: TestCaseError<"unsafeRedirect">[] = [
-  {
-    messageId: "unsafeRedirect",
-  },
-];
+type MessageIds = InferMessageIdsTypeFromRule<typeof rule>;
+type Options = InferOptionsTypeFromRule<typeof rule>;
+
+/**
+ * A reported value, or a piece of code to find it in when the value also
+ * appears earlier, e.g. ["location.href = search", "search"]
+ */
+type ReportedValue = string | [context: string, value: string];
+
+const RUNTIME_IMPORT = `import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";`;
+
+/**
+ * Gets the errors for unsafe values, which are found in the code in order,
+ * with the suggestions offered for them: wrapping the value in
+ * ensureTrustedUrl with a new runtime import (unless `wrap` is false), and a
+ * disable comment on the line before
+ */
+function unsafeRedirectErrors(
+  code: string,
+  values: ReportedValue[],
+  { wrap = true } = {}
+): TestCaseError<MessageIds>[] {
+  const lastImport = [...code.matchAll(/^[ \t]*import\s[^;]*;/gm)].pop();
+  const importEnd = lastImport
+    ? (lastImport.index ?? 0) + lastImport[0].length
+    : null;
+  let searchFrom = 0;
+
+  return values.map((reported) => {
+    const [context, value] =
+      typeof reported === "string" ? [reported, reported] : reported;
+    const contextStart = code.indexOf(context, searchFrom);
+    const start = contextStart === -1 ? -1 : code.indexOf(value, contextStart);
+    if (start === -1) {
+      throw new Error(`${value} not found in the code`);
+    }
+    searchFrom = contextStart + context.length;
+
+    const wrapped =
+      code.slice(0, start) +
+      `ensureTrustedUrl(${value})` +
+      code.slice(start + value.length);
+    const wrapOutput =
+      importEnd === null
+        ? `${RUNTIME_IMPORT}\n${wrapped}`
+        : `${wrapped.slice(0, importEnd)}\n${RUNTIME_IMPORT}${wrapped.slice(
+            importEnd
+          )}`;
+
+    const lineStart = code.lastIndexOf("\n", start) + 1;
+    const indent = /^[ \t]*/.exec(code.slice(lineStart))?.[0] ?? "";
+    const disableOutput =
+      code.slice(0, lineStart) +
+      `${indent}// eslint-disable-next-line @rule-tester/no-unsafe-redirect -- <why this redirect is safe>\n` +
+      code.slice(lineStart);
+
+    return {
+      messageId: "unsafeRedirect",
+      suggestions: [
+        ...(wrap
+          ? [
+              {
+                messageId: "suggestEnsureTrustedUrl" as const,
+                output: wrapOutput,
+              },
+            ]
+          : []),
+        { messageId: "suggestDisableComment", output: disableOutput },
+      ],
+    };
+  });
+}
+
+/**
+ * An invalid case whose errors are reports of the given unsafe values
+ */
+function unsafeRedirectCase(
+  values: ReportedValue[],
+  testCase: Omit<InvalidTestCase<MessageIds, Options>, "errors">,
+  options?: { wrap?: boolean }
+): InvalidTestCase<MessageIds, Options> {
+  return {
+    ...testCase,
+    errors: unsafeRedirectErrors(testCase.code, values, options),
+  };
+}
 
 const sinks: [string, (content: string) => string][] = [
   ["location.href assignment", (content) => `location.href = ${content};`],
@@ -133,12 +222,73 @@ const sinks: [string, (content: string) => string][] = [
     (content) => `const x = \"href\"; location[x] = ${content};`,
   ],
   ["location?.href assignment", (content) => `location?.href = ${content};`],
+  ["top.location assignment", (content) => `top.location = ${content};`],
+  [
+    "parent.location.href assignment",
+    (content) => `parent.location.href = ${content};`,
+  ],
+  [
+    "opener.location.replace call",
+    (content) => `opener.location.replace(${content});`,
+  ],
+  ["self.location assignment", (content) => `self.location = ${content};`],
+  [
+    "frames[0].location assignment",
+    (content) => `frames[0].location = ${content};`,
+  ],
+  [
+    "window.top.location.assign call",
+    (content) => `window.top.location.assign(${content});`,
+  ],
+  [
+    "parent.frames[1].location.href assignment",
+    (content) => `parent.frames[1].location.href = ${content};`,
+  ],
+  [
+    "contentWindow.location assignment without type information",
+    (content) =>
+      `const iframe: any = document.querySelector("iframe"); iframe.contentWindow.location = ${content};`,
+  ],
+  [
+    "contentWindow.location.href assignment",
+    (content) =>
+      `const iframe = document.createElement("iframe"); iframe.contentWindow!.location.href = ${content};`,
+  ],
+  [
+    "top-level this.location assignment",
+    (content) => `this.location = ${content};`,
+  ],
   [
     "window?.location assignment",
     (content) => `window?.location = ${content};`,
   ],
 ];
 
+const CUSTOM_SINKS_PREAMBLE = `
+declare class NavService {
+  redirectTo(url: string, opts?: object): void;
+}
+declare var appRouter: { go(url: string): void };
+declare var nav: NavService;
+`;
+
+const customSinkOptions: Options = [
+  {
+    sinks: [
+      { call: "appRouter.go" },
+      { method: "NavService#redirectTo" },
+      { from: "@our/nav", name: "redirect" },
+      { from: "@our/nav", name: "navigateTo", argument: 1 },
+    ],
+  },
+];
+
+const URL_POLICY = {
+  allowedOrigins: ["https://app.example.com", "https://*.example.com"],
+  allowedProtocols: ["https:"],
+  deniedPaths: ["/logout"],
+};
+
 ruleTester.run("no-unsafe-redirect", rule, {
   valid: [
     {
@@ -240,6 +390,20 @@ ruleTester.run("no-unsafe-redirect", rule, {
         window.open(ensureTrustedUrl(someVariable));
       `,
     },
+    {
+      name: "should allow URLs from a URL validator",
+      code:
+        PREAMBLE +
+        `
+        declare function createUrlValidator(options: object): {
+          ensure: (url: string | URL) => TrustedUrl;
+        };
+        const redirectUrls = createUrlValidator({});
+        location.href = redirectUrls.ensure(someVariable);
+        const { ensure } = redirectUrls;
+        location.assign(ensure(someVariable));
+      `,
+    },
     {
       name: "should allow validated URL from variable",
       code:
@@ -277,45 +441,1071 @@ ruleTester.run("no-unsafe-redirect", rule, {
         location.href = \`/dashboard/\` + x;
       `,
     },
+    {
+      name: "should allow custom sinks with safe values",
+      code:
+        CUSTOM_SINKS_PREAMBLE +
+        `
+        import { redirect, navigateTo } from "@our/nav";
+        appRouter.go("/dashboard");
+        nav.redirectTo(\`/dashboard/\${someVariable}\`, {});
+        redirect("/dashboard");
+        navigateTo(someVariable, "/dashboard");
+      `,
+      options: customSinkOptions,
+    },
+    {
+      name: "should not treat unconfigured or unrelated calls as custom sinks",
+      code:
+        CUSTOM_SINKS_PREAMBLE +
+        `
+        import { redirect } from "@other/nav";
+        declare var other: { redirectTo(url: string): void };
+        appRouter.go(someVariable);
+        other.redirectTo(someVariable);
+        redirect(someVariable);
+      `,
+      options: [{ sinks: [{ call: "appRouter.back" }] }],
+    },
+    {
+      name: "should not treat local functions named like imported sinks as custom sinks",
+      code: `
+        const redirect = (url: string) => url;
+        redirect(someVariable);
+      `,
+      options: customSinkOptions,
+    },
+    {
+      name: "should allow URL validated by imported ensureTrustedUrl",
+      code: `
+        import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+        location.href = ensureTrustedUrl(someVariable);
+      `,
+    },
+    {
+      name: "should allow URL validated by renamed or namespace-imported ensureTrustedUrl",
+      code: `
+        import { ensureTrustedUrl as check } from "eslint-plugin-dom-security/runtime";
+        import * as sec from "eslint-plugin-dom-security/runtime";
+        location.href = check(someVariable);
+        location.href = sec.ensureTrustedUrl(someVariable);
+      `,
+    },
+    {
+      name: "should allow URL validated by a required ensureTrustedUrl",
+      code: `
+        const { ensureTrustedUrl } = require("eslint-plugin-dom-security/runtime");
+        const { ensureTrustedUrl: check } = require("eslint-plugin-dom-security/runtime");
+        const sec = require("eslint-plugin-dom-security/runtime");
+        location.href = ensureTrustedUrl(someVariable);
+        location.href = check(someVariable);
+        location.href = sec.ensureTrustedUrl(someVariable);
+      `,
+    },
+    {
+      name: "should allow URLs from the non-throwing runtime helpers",
+      code: `
+        import { toTrustedUrl, getTrustedReturnUrl } from "eslint-plugin-dom-security/runtime";
+        const params = new URLSearchParams(location.search);
+        location.href = toTrustedUrl(params.get("next"), "/");
+        location.replace(getTrustedReturnUrl("returnUrl", { fallback: "/home" }));
+      `,
+    },
+    {
+      name: "should allow URL validated by configured trusted function",
+      code: `
+        import { safeUrl } from "@our/security";
+        import validate from "@our/validate";
+        location.href = safeUrl(someVariable);
+        window.open(validate(someVariable));
+      `,
+      options: [
+        {
+          trustedFunctions: [
+            { from: "@our/security", name: "safeUrl" },
+            { from: "@our/validate", name: "default" },
+          ],
+        },
+      ],
+    },
+    {
+      name: "should not report untainted values in taint mode",
+      code: `
+        declare var config: { loginUrl: string };
+        location.href = config.loginUrl;
+        window.open(someFunction());
+        const next = "/home" + someVariable;
+        location.assign(next);
+      `,
+      options: [{ mode: "taint" }],
+    },
+    {
+      name: "should not report destructured safe location properties in taint mode",
+      code: `
+        const { pathname, origin } = window.location;
+        location.href = pathname;
+        location.assign(origin);
+      `,
+      options: [{ mode: "taint" }],
+    },
+    {
+      name: "should not report local functions called with untainted values in taint mode",
+      code: `
+        function go(url: string) {
+          location.href = url;
+        }
+        const open = (target: string, url: string) => window.open(url);
+        go("/home");
+        open(location.search, "/help");
+      `,
+      options: [{ mode: "taint" }],
+    },
+    {
+      name: "should not report validated tainted values in taint mode",
+      code: `
+        import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+        const params = new URLSearchParams(location.search);
+        location.href = ensureTrustedUrl(params.get("returnUrl") ?? "/");
+      `,
+      options: [{ mode: "taint" }],
+    },
+    {
+      name: "should allow conditional and logical expressions with only safe values",
+      code: `
+        declare var isAdmin: boolean;
+        declare var next: string | undefined;
+        const NEXT: string = "/next";
+        location.href = isAdmin ? "/admin" : "/home";
+        location.assign(next ? "/next" : isAdmin ? "/admin" : "/");
+        location.replace(NEXT ?? "/");
+        window.open((someFunction(), "/dashboard"));
+      `,
+    },
+    {
+      name: "should allow const bindings widened to string",
+      code: `
+        const HOME: string = "/home";
+        const ADMIN = isAdmin() ? "/admin" : HOME;
+        const BASE = "/app/" as string;
+        function isAdmin(): boolean {
+          return false;
+        }
+        location.href = HOME;
+        location.href = ADMIN as string;
+        location.href = HOME satisfies string;
+        location.href = BASE + someVariable;
+        location.href = "/" + BASE + someVariable;
+      `,
+    },
+    {
+      name: "should allow non-dangerous schemes by default",
+      code: `
+        location.href = "mailto:support@example.com";
+        location.href = "tel:+358401234567";
+        window.open("ftp://files.example.com");
+        location.href = "/javascript-tutorial";
+      `,
+    },
+    {
+      name: "should allow schemes in allowedSchemes",
+      code: `
+        location.href = "mailto:support@example.com";
+        location.href = "TEL:+358401234567";
+        location.href = "https://example.com";
+        location.href = \`https://example.com/\${someVariable}\`;
+        location.href = "/dashboard";
+      `,
+      options: [{ allowedSchemes: ["http:", "https:", "mailto:", "tel:"] }],
+    },
+    {
+      name: "should allow safe values at router preset sinks",
+      code: `
+        import { useNavigate } from "react-router-dom";
+        import { useRouter } from "vue-router";
+        import Router from "next/router";
+        const navigate = useNavigate();
+        const router = useRouter();
+        navigate("/dashboard");
+        navigate(-1);
+        navigate({ pathname: "/dashboard", search: someVariable });
+        router.push({ path: \`/users/\${someVariable}\` });
+        router.push({ name: "user", params: { id: someVariable } });
+        Router.replace("/dashboard");
+      `,
+      options: [{ presets: ["react-router", "next", "vue-router"] }],
+    },
+    {
+      name: "should not report router calls without presets or unrelated functions",
+      code: `
+        import { useNavigate } from "react-router-dom";
+        import { useRouter } from "./my-router";
+        const navigate = useNavigate();
+        const router = useRouter();
+        navigate(someVariable);
+        router.push(someVariable);
+      `,
+      options: [{ presets: ["next"] }],
+    },
+    {
+      name: "should not report methods of types that are not declared in the preset module",
+      code: `
+        declare module "@angular/router" {
+          export class Router {
+            navigateByUrl(url: string): Promise<boolean>;
+          }
+        }
+        declare class Router {
+          navigateByUrl(url: string): Promise<boolean>;
+        }
+        declare const router: Router;
+        router.navigateByUrl(someVariable);
+      `,
+      options: [{ presets: ["angular"] }],
+    },
+    {
+      name: "should allow safe jQuery attribute values",
+      code:
+        PREAMBLE +
+        `
+        import $ from "jquery";
+        $(location).attr("href", "/dashboard");
+        $("a").attr("href", ensureTrustedUrl(someVariable));
+        $("a").prop({ href: "/home", title: someVariable });
+        $("a").attr("title", someVariable);
+        $("a").attr("href", (index: number) => "/item/" + index);
+        $("a").attr("href");
+      `,
+      options: [{ presets: ["jquery"] }],
+    },
+    {
+      name: "should not report jQuery without the preset or $ functions that are not jQuery",
+      code: `
+        import $ from "jquery";
+        import { $ as select } from "./dom";
+        $(location).attr("href", someVariable);
+        select(location).attr("href", someVariable);
+      `,
+    },
+    {
+      name: "should not report $ functions that are not jQuery with the preset",
+      code: `
+        import { $ } from "./dom";
+        $(location).attr("href", someVariable);
+      `,
+      options: [{ presets: ["jquery"] }],
+    },
+    {
+      name: "should not treat local variables named like frame windows as windows",
+      code: `
+        function update(parent: { location: string }, top: any) {
+          parent.location = someVariable;
+          top.location = someVariable;
+        }
+        class Page {
+          location = "";
+          go() {
+            this.location = someVariable;
+          }
+        }
+      `,
+    },
+    {
+      name: "should allow URLs that match the URL policy",
+      code: `
+        const BASE = "https://app.example.com";
+        location.href = "https://app.example.com/dashboard";
+        location.href = "/settings";
+        location.assign(\`https://tenant.example.com/\${someVariable}\`);
+        window.open(BASE + "/help");
+        location.href = someVariable ? "/a" : "https://docs.example.com/";
+      `,
+      options: [{ urlPolicy: URL_POLICY }],
+    },
+    {
+      name: "should not check the protocol of relative URLs against the URL policy",
+      code: `
+        location.href = "/home";
+        location.assign(\`/users/\${someVariable}\`);
+      `,
+      options: [{ urlPolicy: { allowedProtocols: ["http:"] } }],
+    },
+    {
+      name: "should read the URL policy from the shared settings",
+      code: `
+        location.href = "https://app.example.com/dashboard";
+      `,
+      settings: { "dom-security": { urlPolicy: URL_POLICY } },
+    },
+    {
+      name: "should allow relative and constant same-origin literal URLs",
+      code: `
+        const HELP = "/help";
+        location.href = "/dashboard";
+        location.href = \`\${HELP}/faq\`;
+        location.assign("./settings?tab=" + someVariable);
+      `,
+      options: [{ checkLiteralUrls: true }],
+    },
+    {
+      name: "should allow literal URLs that match the URL policy",
+      code: `
+        const DOCS = "https://docs.example.com";
+        location.href = "https://app.example.com/dashboard";
+        window.open(\`\${DOCS}/guide/\${someVariable}\`);
+      `,
+      options: [{ checkLiteralUrls: true, urlPolicy: URL_POLICY }],
+    },
+    {
+      name: "should allow http: literal URLs if the URL policy allows them",
+      code: `
+        location.href = "http://localhost:3000/";
+      `,
+      options: [
+        {
+          checkLiteralUrls: true,
+          urlPolicy: {
+            allowedOrigins: ["http://localhost:*"],
+            allowedProtocols: ["http:", "https:"],
+          },
+        },
+      ],
+    },
+    {
+      name: "should not check URLs without a URL policy",
+      code: `
+        location.href = "https://evil.com/";
+        location.href = "http://example.com/";
+      `,
+    },
   ],
 
-  invalid: sinks.flatMap(([sinkName, construct]) => [
+  invalid: [
+    unsafeRedirectCase(["someVariable", "someVariable", "someVariable"], {
+      name: "should report react-router navigate and redirect",
+      code: `
+        import { useNavigate, redirect } from "react-router";
+        function Page() {
+          const navigate = useNavigate();
+          navigate(someVariable);
+          navigate({ pathname: someVariable });
+          return redirect(someVariable);
+        }
+      `,
+      options: [{ presets: ["react-router"] }],
+    }),
+    unsafeRedirectCase(
+      [
+        "someVariable",
+        "someVariable",
+        "someVariable",
+        "someVariable",
+        "someVariable",
+      ],
+      {
+        name: "should report next router push and replace",
+        code: `
+        import { useRouter } from "next/router";
+        import Router from "next/router";
+        import { useRouter as useAppRouter, redirect } from "next/navigation";
+        const router = useRouter();
+        router.push(someVariable);
+        router.replace({ pathname: someVariable, query: {} });
+        Router.push(someVariable);
+        useAppRouter().replace(someVariable);
+        redirect(someVariable);
+      `,
+        options: [{ presets: ["next"] }],
+      }
+    ),
+    unsafeRedirectCase(["someVariable", "someVariable"], {
+      name: "should report vue-router push with object form",
+      code: `
+        import { useRouter } from "vue-router";
+        const router = useRouter();
+        router.push({ path: someVariable });
+        router.replace(someVariable);
+      `,
+      options: [{ presets: ["vue-router"] }],
+    }),
+    unsafeRedirectCase([["navigateByUrl(url)", "url"]], {
+      name: "should report Angular Router#navigateByUrl by type",
+      code: `
+        declare module "@angular/router" {
+          export class UrlTree {}
+          export class Router {
+            navigateByUrl(url: string | UrlTree): Promise<boolean>;
+            createUrlTree(commands: unknown[]): UrlTree;
+          }
+        }
+        class Page {
+          constructor(private router: import("@angular/router").Router) {}
+          go(url: string) {
+            this.router.navigateByUrl(this.router.createUrlTree(["/home"]));
+            this.router.navigateByUrl(url);
+          }
+        }
+      `,
+      options: [{ presets: ["angular"] }],
+    }),
+    unsafeRedirectCase(
+      [
+        "someVariable",
+        "someVariable",
+        "someVariable",
+        "someVariable",
+        "someVariable",
+      ],
+      {
+        name: "should report jQuery attribute and property URLs",
+        code: `
+        import $ from "jquery";
+        $(location).attr("href", someVariable);
+        $(window.location).prop("href", someVariable);
+        $("a.profile").addClass("active").attr("href", someVariable);
+        const $link = $("<a>");
+        $link.attr({ href: someVariable, title: "Profile" });
+        $("img").prop("src", someVariable);
+      `,
+        options: [{ presets: ["jquery"] }],
+      }
+    ),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report jQuery objects by type",
+      code: `
+        interface JQuery<TElement = HTMLElement> {
+          attr(name: string, value: string): this;
+          find(selector: string): this;
+        }
+        function update(links: JQuery<HTMLAnchorElement>) {
+          links.find("a").attr("href", someVariable);
+        }
+      `,
+      options: [{ presets: ["jquery"] }],
+    }),
+    ...[
+      '"javascript:alert(1)"',
+      '"data:text/html,<script>alert(1)</script>"',
+      '"vbscript:msgbox(1)"',
+      '" JaVaScRiPt:alert(1)"',
+      '"java\\tscript:alert(1)"',
+      '"\\njavascript:alert(1)"',
+      '"\\x01javascript:alert(1)"',
+      '"javascript:" + someVariable',
+      "`javascript:${someVariable}`",
+      'SCHEME + "alert(1)"',
+      "SCHEME",
+    ].flatMap((value) =>
+      [
+        (content: string) => `location.href = ${content};`,
+        (content: string) => `location.assign(${content});`,
+        (content: string) => `window.open(${content});`,
+      ].map((construct) =>
+        unsafeRedirectCase([[construct(value), value]], {
+          name: `should report dangerous scheme ${value} in ${construct("")}`,
+          code: `const SCHEME = "javascript:";\n${construct(value)}`,
+        })
+      )
+    ),
+    unsafeRedirectCase(
+      [
+        '"ftp://files.example.com"',
+        "`ftp://files.example.com/${someVariable}`",
+      ],
+      {
+        name: "should report schemes not in allowedSchemes",
+        code: `
+        window.open("ftp://files.example.com");
+        location.href = \`ftp://files.example.com/\${someVariable}\`;
+      `,
+        options: [{ allowedSchemes: ["http:", "https:", "mailto:", "tel:"] }],
+      }
+    ),
+    unsafeRedirectCase(['isAdmin ? "/admin" : someVariable'], {
+      name: "should report conditional expression with an unsafe branch",
+      code: `
+        declare var isAdmin: boolean;
+        location.href = isAdmin ? "/admin" : someVariable;
+      `,
+    }),
+    unsafeRedirectCase(['next ?? "/"'], {
+      name: "should report logical expression with an unsafe operand",
+      code: `
+        declare var next: string | undefined;
+        location.assign(next ?? "/");
+      `,
+    }),
+    unsafeRedirectCase([["location.href = HOME", "HOME"]], {
+      name: "should report non-const bindings",
+      code: `
+        let HOME: string = "/home";
+        location.href = HOME;
+      `,
+    }),
+    unsafeRedirectCase(['"" + someVariable', "EMPTY + someVariable"], {
+      name: "should report concatenation with an empty prefix",
+      code: `
+        const EMPTY: string = "";
+        location.href = "" + someVariable;
+        location.href = EMPTY + someVariable;
+      `,
+    }),
+    {
+      name: "should suggest adding the runtime import",
+      code: `function go() {
+  location.assign(someVariable);
+}`,
+      errors: [
+        {
+          messageId: "unsafeRedirect",
+          suggestions: [
+            {
+              messageId: "suggestEnsureTrustedUrl",
+              output: `import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+function go() {
+  location.assign(ensureTrustedUrl(someVariable));
+}`,
+            },
+            {
+              messageId: "suggestDisableComment",
+              output: `function go() {
+  // eslint-disable-next-line @rule-tester/no-unsafe-redirect -- <why this redirect is safe>
+  location.assign(someVariable);
+}`,
+            },
+          ],
+        },
+      ],
+    },
     {
-      name: `should report ${sinkName} to unsafe variable`,
-      code: construct("someVariable"),
-      errors: defaultErrors,
+      name: "should only suggest a disable comment when ensureTrustedUrl is shadowed",
+      code: `function ensureTrustedUrl(url: string) {
+  return url;
+}
+location.href = ensureTrustedUrl(someVariable);`,
+      errors: [
+        {
+          messageId: "unsafeRedirect",
+          suggestions: [
+            {
+              messageId: "suggestDisableComment",
+              output: `function ensureTrustedUrl(url: string) {
+  return url;
+}
+// eslint-disable-next-line @rule-tester/no-unsafe-redirect -- <why this redirect is safe>
+location.href = ensureTrustedUrl(someVariable);`,
+            },
+          ],
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe template literal forming third-party origin`,
-      // e.g., someVariable = "/example.com" causes redirection to "//example.com"
-      code: construct("`/${someVariable}`"),
-      errors: defaultErrors,
+      name: "should not suggest a disable comment inside a multi-line template literal",
+      code: `const t = \`line1
+\${window.open(someVariable)}\`;`,
+      errors: [
+        {
+          messageId: "unsafeRedirect",
+          suggestions: [
+            {
+              messageId: "suggestEnsureTrustedUrl",
+              output: `import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+const t = \`line1
+\${window.open(ensureTrustedUrl(someVariable))}\`;`,
+            },
+          ],
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe template literal forming third-party origin with backslash`,
-      // e.g., someVariable = "/example.com" causes redirection to "//example.com"
-      code: construct("`\\\\${someVariable}`"),
-      errors: defaultErrors,
+      name: "should suggest extending an existing runtime import",
+      code: `import { type TrustedUrl } from "eslint-plugin-dom-security/runtime";
+location.href = someVariable;`,
+      errors: [
+        {
+          messageId: "unsafeRedirect",
+          suggestions: [
+            {
+              messageId: "suggestEnsureTrustedUrl",
+              output: `import { type TrustedUrl, ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+location.href = ensureTrustedUrl(someVariable);`,
+            },
+            {
+              messageId: "suggestDisableComment",
+              output: `import { type TrustedUrl } from "eslint-plugin-dom-security/runtime";
+// eslint-disable-next-line @rule-tester/no-unsafe-redirect -- <why this redirect is safe>
+location.href = someVariable;`,
+            },
+          ],
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe template literal`,
-      code: construct("`${someVariable}?param1=a`"),
-      errors: defaultErrors,
+      name: "should suggest reusing existing runtime bindings",
+      code: `import * as sec from "eslint-plugin-dom-security/runtime";
+  window.open(someVariable);`,
+      errors: [
+        {
+          messageId: "unsafeRedirect",
+          suggestions: [
+            {
+              messageId: "suggestEnsureTrustedUrl",
+              output: `import * as sec from "eslint-plugin-dom-security/runtime";
+  window.open(sec.ensureTrustedUrl(someVariable));`,
+            },
+            {
+              messageId: "suggestDisableComment",
+              output: `import * as sec from "eslint-plugin-dom-security/runtime";
+  // eslint-disable-next-line @rule-tester/no-unsafe-redirect -- <why this redirect is safe>
+  window.open(someVariable);`,
+            },
+          ],
+        },
+      ],
+    },
+    ...[
+      "location.search.slice(1)",
+      "window.location.hash.substring(1)",
+      "document.referrer",
+      "window.name",
+      'new URLSearchParams(location.search).get("next")',
+      'new URL(location.href).searchParams.get("next")',
+      'localStorage.getItem("returnUrl")',
+      'window.sessionStorage.getItem("returnUrl")',
+      "decodeURIComponent(location.hash)",
+    ].map((source) =>
+      unsafeRedirectCase([source], {
+        name: `should report ${source} in taint mode`,
+        code: `location.href = ${source};`,
+        options: [{ mode: "taint" }],
+      })
+    ),
+    unsafeRedirectCase([["location.assign(url)", "url"]], {
+      name: "should report tainted values flowing through local variables in taint mode",
+      code: `
+        function go() {
+          const params = new URLSearchParams(location.search);
+          let target = params.get("next");
+          const url = \`\${target}?ref=1\`;
+          location.assign(url);
+        }
+      `,
+      options: [{ mode: "taint" }],
+    }),
+    unsafeRedirectCase([["window.open(target)", "target"]], {
+      name: "should report tainted values assigned after declaration in taint mode",
+      code: `
+        let target = "/home";
+        if (someVariable) {
+          target = location.hash.slice(1);
+        }
+        window.open(target);
+      `,
+      options: [{ mode: "taint" }],
+    }),
+    unsafeRedirectCase(
+      [
+        ["location.href = search", "search"],
+        ["window.open(fragment)", "fragment"],
+      ],
+      {
+        name: "should report destructured built-in sources in taint mode",
+        code: `
+        const { search } = location;
+        const { hash: fragment = "" } = window.location;
+        location.href = search;
+        window.open(fragment);
+      `,
+        options: [{ mode: "taint" }],
+      }
+    ),
+    unsafeRedirectCase(
+      ["JSON.parse(decodeURIComponent(location.hash.slice(1))).url"],
+      {
+        name: "should report values parsed from tainted JSON in taint mode",
+        code: `
+        location.href = JSON.parse(decodeURIComponent(location.hash.slice(1))).url;
+      `,
+        options: [{ mode: "taint" }],
+      }
+    ),
+    unsafeRedirectCase(
+      [
+        ["location.href = url", "url"],
+        ["window.open(target)", "target"],
+      ],
+      {
+        name: "should report parameters of local functions called with tainted values in taint mode",
+        code: `
+        function go(url: string) {
+          location.href = url;
+        }
+        const open = (target: string) => {
+          window.open(target);
+        };
+        go(location.search);
+        open(...[document.referrer]);
+      `,
+        options: [{ mode: "taint" }],
+      }
+    ),
+    unsafeRedirectCase(["event.data.url"], {
+      name: "should report MessageEvent#data in taint mode",
+      code: `
+        window.addEventListener("message", (event: MessageEvent) => {
+          location.href = event.data.url;
+        });
+      `,
+      options: [{ mode: "taint" }],
+    }),
+    unsafeRedirectCase(['getQueryParam("next")', 'router.param("next")'], {
+      name: "should report configured taint sources in taint mode",
+      code: `
+        import { getQueryParam } from "@our/query";
+        declare var router: { param(name: string): string };
+        location.href = getQueryParam("next");
+        location.href = router.param("next");
+      `,
+      options: [
+        {
+          mode: "taint",
+          sources: [
+            { from: "@our/query", name: "getQueryParam" },
+            { call: "router.param" },
+          ],
+        },
+      ],
+    }),
+    unsafeRedirectCase(
+      ["ensureTrustedUrl(someVariable)"],
+      {
+        name: "should report local function named ensureTrustedUrl",
+        code: `
+        function ensureTrustedUrl(url: string) {
+          return url;
+        }
+        location.href = ensureTrustedUrl(someVariable);
+      `,
+      },
+      { wrap: false }
+    ),
+    unsafeRedirectCase(
+      ["safeUrl(someVariable)", "ensureTrustedUrl(someVariable)"],
+      {
+        name: "should report function imported from a module other than the configured one",
+        code: `
+        import { safeUrl } from "@not-our/security";
+        import { ensureTrustedUrl } from "./local-helpers";
+        location.href = safeUrl(someVariable);
+        location.href = ensureTrustedUrl(someVariable);
+      `,
+        options: [
+          { trustedFunctions: [{ from: "@our/security", name: "safeUrl" }] },
+        ],
+      },
+      { wrap: false }
+    ),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom call path sink to unsafe variable",
+      code: CUSTOM_SINKS_PREAMBLE + `appRouter.go(someVariable);`,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom call path sink with optional chaining",
+      code: CUSTOM_SINKS_PREAMBLE + `appRouter?.go(someVariable);`,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase([["navService.redirectTo(url", "url"]], {
+      name: "should report custom method sink on typed receiver",
+      code:
+        CUSTOM_SINKS_PREAMBLE +
+        `
+        class Page {
+          constructor(private navService: NavService) {}
+          leave(url: string) {
+            this.navService.redirectTo(url, { replace: true });
+          }
+        }
+      `,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom imported function sink",
+      code: `
+        import { redirect } from "@our/nav";
+        redirect(someVariable);
+      `,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom imported function sink via renamed import",
+      code: `
+        import { redirect as go } from "@our/nav";
+        go(someVariable);
+      `,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom imported function sink via namespace import",
+      code: `
+        import * as nav from "@our/nav";
+        nav.redirect(someVariable);
+      `,
+      options: customSinkOptions,
+    }),
+    unsafeRedirectCase(["someVariable"], {
+      name: "should report custom sink using the configured argument",
+      code: `
+        import { navigateTo } from "@our/nav";
+        navigateTo("/dashboard", someVariable);
+      `,
+      options: customSinkOptions,
+    }),
+    {
+      name: "should report URLs that the URL policy doesn't allow",
+      code: `
+        const EVIL = "https://evil.com";
+        location.href = "https://evil.com/";
+        location.href = "http://app.example.com/";
+        window.open(EVIL + "/page");
+        location.assign("/logout");
+        location.replace(someVariable ? "/a" : "https://example.com.evil.com/");
+      `,
+      options: [{ urlPolicy: URL_POLICY }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Unsafe URL protocol: http:" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "URL path not allowed: /logout" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: {
+            details:
+              "Cross-origin URL not allowed: https://example.com.evil.com",
+          },
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe function call`,
-      code: construct("someFunction()"),
-      errors: defaultErrors,
+      name: "should report URLs that the URL policy doesn't allow inside with (location)",
+      code: `
+        with (location) {
+          href = "https://evil.com/";
+          href = "https://evil.com/" + path;
+        }
+      `,
+      options: [{ urlPolicy: URL_POLICY }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+      ],
+    },
+    {
+      name: "should report template URLs whose origin the URL policy doesn't allow",
+      code: `
+        location.href = \`https://evil.com/\${someVariable}\`;
+        location.href = \`https://app.example.com\${someVariable}\`;
+      `,
+      options: [{ urlPolicy: URL_POLICY }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: {
+            details:
+              "Origin of URL starting with https://app.example.com is not known statically",
+          },
+        },
+      ],
+    },
+    {
+      name: "should report URLs that the URL policy from the shared settings doesn't allow",
+      code: `
+        location.href = "https://evil.com/";
+      `,
+      settings: { "dom-security": { urlPolicy: URL_POLICY } },
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+      ],
+    },
+    {
+      name: "should report URL policies in the shared settings that don't match the schema",
+      code: `
+        location.href = "https://evil.com/";
+      `,
+      settings: {
+        "dom-security": { urlPolicy: { allowedOrigins: "https://x.com" } },
+      },
+      errors: [
+        {
+          messageId: "invalidUrlPolicy",
+          data: {
+            details:
+              'settings["dom-security"].urlPolicy.allowedOrigins must be an array',
+          },
+          line: 1,
+        },
+      ],
+    },
+    {
+      name: "should report invalid origin patterns of the URL policy",
+      code: `
+        location.href = "https://evil.com/";
+      `,
+      options: [{ urlPolicy: { allowedOrigins: ["https://*x*.com"] } }],
+      errors: [
+        {
+          messageId: "invalidUrlPolicy",
+          data: { details: "Invalid origin pattern: https://*x*.com" },
+          line: 1,
+        },
+      ],
+    },
+    {
+      name: "should report literal URLs without an allowed origin",
+      code: `
+        location.href = "http://staging.internal/admin";
+        window.open("https://typo-squat.com");
+        location.assign("//cdn.example.com/app");
+        location.href = "\\\\\\\\evil.com";
+      `,
+      options: [{ checkLiteralUrls: true }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Unsafe URL protocol: http:" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: {
+            details: "Cross-origin URL not allowed: https://typo-squat.com",
+          },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: {
+            details: "Protocol-relative URL not allowed: //cdn.example.com/app",
+          },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: {
+            details: "Protocol-relative URL not allowed: \\\\evil.com",
+          },
+        },
+      ],
+    },
+    {
+      name: "should report constant-folded literal URLs",
+      code: `
+        const API = "http://app.example.com";
+        const EVIL = "https://evil.com";
+        location.href = API + "/login";
+        location.href = \`\${EVIL}/\${someVariable}\`;
+        location.href = someVariable ? "/home" : \`\${EVIL}/home\`;
+      `,
+      options: [{ checkLiteralUrls: true, urlPolicy: URL_POLICY }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Unsafe URL protocol: http:" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe string concatenation forming third-party origin`,
-      code: construct('"/" + someVariable'),
-      errors: defaultErrors,
+      name: "should report http: literal URLs even if the URL policy doesn't list protocols",
+      code: `
+        location.href = "http://app.example.com/";
+      `,
+      options: [
+        {
+          checkLiteralUrls: true,
+          urlPolicy: { allowedOrigins: ["http://app.example.com"] },
+        },
+      ],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Unsafe URL protocol: http:" },
+        },
+      ],
     },
     {
-      name: `should report ${sinkName} to unsafe string concatenation`,
-      code: construct('someVariable + "/"'),
-      errors: defaultErrors,
+      name: "should report policy violations in taint mode",
+      code: `
+        location.href = "https://evil.com/";
+        location.href = someVariable;
+      `,
+      options: [{ urlPolicy: URL_POLICY, mode: "taint" }],
+      errors: [
+        {
+          messageId: "disallowedUrl",
+          data: { details: "Cross-origin URL not allowed: https://evil.com" },
+        },
+      ],
     },
-  ]),
+    ...sinks.flatMap(([sinkName, construct]) => [
+      unsafeRedirectCase(["someVariable"], {
+        name: `should report ${sinkName} to unsafe variable`,
+        code: construct("someVariable"),
+      }),
+      unsafeRedirectCase(["`/${someVariable}`"], {
+        name: `should report ${sinkName} to unsafe template literal forming third-party origin`,
+        // e.g., someVariable = "/example.com" causes redirection to "//example.com"
+        code: construct("`/${someVariable}`"),
+      }),
+      unsafeRedirectCase(["`\\\\${someVariable}`"], {
+        name: `should report ${sinkName} to unsafe template literal forming third-party origin with backslash`,
+        // e.g., someVariable = "/example.com" causes redirection to "//example.com"
+        code: construct("`\\\\${someVariable}`"),
+      }),
+      unsafeRedirectCase(["`${someVariable}?param1=a`"], {
+        name: `should report ${sinkName} to unsafe template literal`,
+        code: construct("`${someVariable}?param1=a`"),
+      }),
+      unsafeRedirectCase(["someFunction()"], {
+        name: `should report ${sinkName} to unsafe function call`,
+        code: construct("someFunction()"),
+      }),
+      unsafeRedirectCase(['"/" + someVariable'], {
+        name: `should report ${sinkName} to unsafe string concatenation forming third-party origin`,
+        code: construct('"/" + someVariable'),
+      }),
+      unsafeRedirectCase(['someVariable + "/"'], {
+        name: `should report ${sinkName} to unsafe string concatenation`,
+        code: construct('someVariable + "/"'),
+      }),
+    ]),
+  ],
 });
@@ -0,0 +1,279 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-script-url.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+type TrustedScriptUrl<T extends string = string> = T & { readonly __brand: "TrustedScriptUrl" };
+type TrustedUrl<T extends string = string> = T & { readonly __brand: "TrustedUrl" };
+declare var someVariable: string;
+declare var script: HTMLScriptElement;
+declare var link: HTMLLinkElement;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const sinks = [
+  "script.src = URL;",
+  'script.setAttribute("src", URL);',
+  "import(URL);",
+  "importScripts(URL);",
+  "new Worker(URL);",
+  'new SharedWorker(URL, { type: "module" });',
+  "new window.Worker(URL);",
+  "navigator.serviceWorker.register(URL);",
+  "window.navigator.serviceWorker.register(URL);",
+  'link.rel = "modulepreload"; link.href = URL;',
+];
+
+ruleTester.run("no-unsafe-script-url", rule, {
+  valid: [
+    ...sinks.flatMap((sink) => [
+      `${PREAMBLE} ${sink.replace("URL", '"/assets/app.js"')}`,
+      `${PREAMBLE} declare var url: TrustedScriptUrl; ${sink.replace(
+        "URL",
+        "url"
+      )}`,
+      `
+        import { ensureTrustedScriptUrl } from "eslint-plugin-dom-security/runtime";
+        ${PREAMBLE}
+        ${sink.replace("URL", "ensureTrustedScriptUrl(someVariable)")}
+      `,
+    ]),
+    // DOM Trusted Types
+    `
+      ${PREAMBLE}
+      declare class TrustedScriptURL { private brand: true; }
+      declare class TrustedHTML { private brand: true; }
+      interface TrustedTypePolicy {
+        createScriptURL(input: string): TrustedScriptURL;
+        createHTML(input: string): TrustedHTML;
+      }
+      declare var policy: TrustedTypePolicy;
+      declare var trusted: TrustedScriptURL;
+      script.src = trusted;
+      new Worker(policy.createScriptURL(someVariable));
+      navigator.serviceWorker.register(trusted);
+    `,
+    // createTrustedTypesPolicy values
+    `
+      ${PREAMBLE}
+      declare var policy: {
+        createScriptURL(url: string): TrustedScriptUrl;
+      };
+      script.src = policy.createScriptURL(someVariable);
+      new Worker(policy.createScriptURL(someVariable));
+    `,
+    // URLs resolved against the module or the page
+    `
+      ${PREAMBLE}
+      new Worker(new URL("./worker.js", import.meta.url));
+      navigator.serviceWorker.register(new URL("/sw.js", location.origin));
+    `,
+    // Static prefixes and constants
+    `
+      ${PREAMBLE}
+      const CHUNK = "/chunks/main.js";
+      import(CHUNK);
+      import(\`./locales/\${someVariable}.js\`);
+    `,
+    // Other link relations
+    `
+      ${PREAMBLE}
+      link.rel = "stylesheet";
+      link.href = someVariable;
+      declare var other: HTMLLinkElement;
+      other.rel = "modulepreload";
+      link.setAttribute("href", someVariable);
+    `,
+    // Other elements and shadowed globals
+    `
+      ${PREAMBLE}
+      declare var img: HTMLImageElement;
+      img.src = someVariable;
+      function load(Worker: new (url: string) => unknown) {
+        new Worker(someVariable);
+      }
+    `,
+    // Allowed origins and opted-in schemes
+    {
+      code: `
+        ${PREAMBLE}
+        script.src = "https://cdn.example.com/app.js";
+        script.src = "https://cdn.example.com/" + someVariable + ".js";
+        import(\`https://cdn.example.com/locales/\${someVariable}.js\`);
+        script.src = new URL("/app.js", "https://cdn.example.com").href;
+        new Worker("blob:https://cdn.example.com/0b8c7f0e");
+        new Worker("data:text/javascript,postMessage(1)");
+      `,
+      options: [
+        {
+          allowedOrigins: ["https://cdn.example.com"],
+          allowBlob: true,
+          allowData: true,
+        },
+      ],
+    },
+    // Custom trusted functions
+    {
+      code: `
+        import { validateScript } from "./security";
+        ${PREAMBLE}
+        new Worker(validateScript(someVariable));
+      `,
+      options: [
+        { trustedFunctions: [{ from: "./security", name: "validateScript" }] },
+      ],
+    },
+  ],
+  invalid: [
+    ...sinks.map((sink) => ({
+      code: `${PREAMBLE} ${sink.replace("URL", "someVariable")}`,
+      errors: [{ messageId: "unsafeScriptUrl" as const }],
+    })),
+    // The redirect brand is not enough to load scripts
+    {
+      code: `
+        ${PREAMBLE}
+        declare var url: TrustedUrl;
+        script.src = url;
+      `,
+      errors: [
+        {
+          messageId: "unsafeScriptUrl",
+          data: { sink: "HTMLScriptElement#src" },
+        },
+      ],
+    },
+    {
+      code: `
+        import { ensureTrustedUrl } from "eslint-plugin-dom-security/runtime";
+        ${PREAMBLE}
+        new Worker(ensureTrustedUrl(someVariable));
+      `,
+      errors: [
+        { messageId: "unsafeScriptUrl", data: { sink: "new Worker()" } },
+      ],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        declare class TrustedScriptURL { private brand: true; }
+        declare var url: string | TrustedScriptURL;
+        new Worker(url);
+      `,
+      errors: [{ messageId: "unsafeScriptUrl" }],
+    },
+    // Dangerous literals
+    {
+      code: `
+        ${PREAMBLE}
+        script.src = "javascript:alert(1)";
+        new Worker("data:text/javascript,postMessage(1)");
+      `,
+      errors: [
+        { messageId: "unsafeScriptUrl", line: 9 },
+        { messageId: "unsafeScriptUrl", line: 10 },
+      ],
+    },
+    // Cross-origin URLs, also when the origin is not known statically
+    {
+      code: `
+        ${PREAMBLE}
+        declare var host: string;
+        script.src = "https://" + host + "/x.js";
+        script.src = "https://evil.example/x.js";
+        script.src = "blob:https://a/b";
+        script.src = \`https://cdn.example.com\${someVariable}\`;
+        script.src = new URL("/app.js", "https://evil.example").href;
+      `,
+      options: [{ allowedOrigins: ["https://cdn.example.com"] }],
+      errors: [
+        { messageId: "unsafeScriptUrl", line: 10 },
+        { messageId: "unsafeScriptUrl", line: 11 },
+        { messageId: "unsafeScriptUrl", line: 12 },
+        { messageId: "unsafeScriptUrl", line: 13 },
+        { messageId: "unsafeScriptUrl", line: 14 },
+      ],
+    },
+    // Invalid origin patterns
+    {
+      code: `${PREAMBLE} script.src = "https://cdn.example.com/app.js";`,
+      options: [{ allowedOrigins: ["https://*x*.com"] }],
+      errors: [
+        {
+          messageId: "invalidAllowedOrigins",
+          data: { details: "Invalid origin pattern: https://*x*.com" },
+          line: 1,
+        },
+        { messageId: "unsafeScriptUrl" },
+      ],
+    },
+    // blob: URLs have to be created by an allowed origin
+    {
+      code: `
+        ${PREAMBLE}
+        new Worker("blob:https://evil.example/0b8c7f0e");
+        new Worker("blob:" + someVariable);
+      `,
+      options: [{ allowBlob: true }],
+      errors: [
+        { messageId: "unsafeScriptUrl" },
+        { messageId: "unsafeScriptUrl" },
+      ],
+    },
+    // URLs resolved against untrusted bases
+    {
+      code: `
+        ${PREAMBLE}
+        new Worker(new URL("./worker.js", someVariable));
+        new Worker(new URL(someVariable, import.meta.url));
+      `,
+      errors: [
+        { messageId: "unsafeScriptUrl" },
+        { messageId: "unsafeScriptUrl" },
+      ],
+    },
+    // Every importScripts() argument is checked
+    {
+      code: `${PREAMBLE} importScripts("/a.js", someVariable);`,
+      errors: [
+        { messageId: "unsafeScriptUrl", data: { sink: "importScripts()" } },
+      ],
+    },
+    // rel set after href, or to an unknown value
+    {
+      code: `
+        ${PREAMBLE}
+        link.setAttribute("href", someVariable);
+        link.setAttribute("rel", "modulepreload");
+        const preload = document.createElement("link");
+        preload.href = someVariable;
+        preload.rel = someVariable;
+      `,
+      errors: [
+        {
+          messageId: "unsafeScriptUrl",
+          data: { sink: '<link rel="modulepreload">' },
+        },
+        {
+          messageId: "unsafeScriptUrl",
+          data: { sink: '<link rel="modulepreload">' },
+        },
+      ],
+    },
+  ],
+});
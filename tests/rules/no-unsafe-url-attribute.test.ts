@@ -0,0 +1,277 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/no-unsafe-url-attribute.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+type TrustedUrl<T extends string = string> = T & { readonly __brand: "TrustedUrl" };
+declare function ensureTrustedUrl<T extends string>(url: T): TrustedUrl<T>;
+declare var someVariable: string;
+declare var anchor: HTMLAnchorElement;
+declare var area: HTMLAreaElement;
+declare var iframe: HTMLIFrameElement;
+declare var form: HTMLFormElement;
+declare var button: HTMLButtonElement;
+declare var object: HTMLObjectElement;
+declare var embed: HTMLEmbedElement;
+declare var div: HTMLDivElement;
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+const propertySinks = [
+  ["anchor.href", "HTMLAnchorElement#href"],
+  ["area.href", "HTMLAreaElement#href"],
+  ["iframe.src", "HTMLIFrameElement#src"],
+  ["form.action", "HTMLFormElement#action"],
+  ["button.formAction", "HTMLButtonElement#formAction"],
+  ["object.data", "HTMLObjectElement#data"],
+  ["embed.src", "HTMLEmbedElement#src"],
+] as const;
+
+const attributeSinks = [
+  ["anchor", "href", "HTMLAnchorElement"],
+  ["area", "href", "HTMLAreaElement"],
+  ["iframe", "src", "HTMLIFrameElement"],
+  ["form", "action", "HTMLFormElement"],
+  ["button", "formaction", "HTMLButtonElement"],
+  ["object", "data", "HTMLObjectElement"],
+  ["embed", "src", "HTMLEmbedElement"],
+] as const;
+
+ruleTester.run("no-unsafe-url-attribute", rule, {
+  valid: [
+    ...propertySinks.flatMap(([sink]) => [
+      `${PREAMBLE} ${sink} = "/dashboard";`,
+      `${PREAMBLE} ${sink} = \`/users/\${someVariable}\`;`,
+      `${PREAMBLE} ${sink} = ensureTrustedUrl(someVariable);`,
+    ]),
+    ...attributeSinks.flatMap(([element, attribute]) => [
+      `${PREAMBLE} ${element}.setAttribute("${attribute}", "/dashboard");`,
+      `${PREAMBLE} ${element}.setAttribute("${attribute}", ensureTrustedUrl(someVariable));`,
+    ]),
+    // Properties and attributes without URLs
+    `${PREAMBLE} anchor.title = someVariable;`,
+    `${PREAMBLE} anchor.setAttribute("title", someVariable);`,
+    `${PREAMBLE} form.setAttribute("method", someVariable);`,
+    // Attributes that don't carry a URL on this element
+    `${PREAMBLE} div.setAttribute("href", someVariable);`,
+    `${PREAMBLE} form.setAttribute("src", someVariable);`,
+    // Other elements with a `src`/`data` property are not covered
+    `${PREAMBLE} div.dataset.src = someVariable;`,
+    `${PREAMBLE} declare var img: HTMLImageElement; img.src = someVariable;`,
+    // Objects that merely share the property name
+    `
+      const link = { href: "" };
+      link.href = someVariable;
+    `,
+    // Constants
+    `
+      ${PREAMBLE}
+      const HELP_URL = "https://help.example.com";
+      anchor.href = HELP_URL;
+    `,
+    // Elements from DOM APIs
+    `
+      ${PREAMBLE}
+      const link = document.createElement("a");
+      link.href = "/download";
+      document.querySelector("iframe")!.src = "/embed";
+    `,
+    // Meta refresh with a static URL
+    `
+      ${PREAMBLE}
+      const meta = document.createElement("meta");
+      meta.httpEquiv = "refresh";
+      meta.content = "0; url=/login";
+    `,
+    `
+      ${PREAMBLE}
+      declare var delay: number;
+      const meta = document.createElement("meta");
+      meta.setAttribute("http-equiv", "refresh");
+      meta.setAttribute("content", \`\${delay}; url=/login\`);
+    `,
+    `
+      ${PREAMBLE}
+      const meta = document.createElement("meta");
+      meta.httpEquiv = "refresh";
+      meta.content = \`0; url=/users/\${someVariable}\`;
+    `,
+    `
+      ${PREAMBLE}
+      const meta = document.createElement("meta");
+      meta.httpEquiv = "refresh";
+      meta.content = "0; URL='" + ensureTrustedUrl(someVariable) + "'";
+    `,
+    // Reload without a URL
+    `
+      ${PREAMBLE}
+      declare var delay: number;
+      const meta = document.createElement("meta");
+      meta.httpEquiv = "refresh";
+      meta.content = \`\${delay}\`;
+    `,
+    // Meta elements that don't refresh
+    `
+      ${PREAMBLE}
+      const meta = document.createElement("meta");
+      meta.name = "description";
+      meta.content = someVariable;
+    `,
+    `
+      ${PREAMBLE}
+      const refresh = document.createElement("meta");
+      refresh.httpEquiv = "refresh";
+      refresh.content = "0";
+      const description = document.createElement("meta");
+      description.content = someVariable;
+    `,
+  ],
+  invalid: [
+    ...propertySinks.flatMap(([sink, name]) =>
+      [
+        "someVariable",
+        "`${someVariable}/page`",
+        "`/${someVariable}`",
+        '"javascript:alert(1)"',
+      ].map((value) => ({
+        code: `${PREAMBLE} ${sink} = ${value};`,
+        errors: [
+          {
+            messageId: "unsafeUrlAttribute" as const,
+            data: { sink: name },
+          },
+        ],
+      }))
+    ),
+    ...attributeSinks.map(([element, attribute, elementType]) => ({
+      code: `${PREAMBLE} ${element}.setAttribute("${attribute}", someVariable);`,
+      errors: [
+        {
+          messageId: "unsafeUrlAttribute" as const,
+          data: { sink: `${elementType}#setAttribute("${attribute}")` },
+        },
+      ],
+    })),
+    // Attribute names are case-insensitive
+    {
+      code: `${PREAMBLE} anchor.setAttribute("HREF", someVariable);`,
+      errors: [{ messageId: "unsafeUrlAttribute" }],
+    },
+    // Element types from DOM APIs
+    {
+      code: `
+        ${PREAMBLE}
+        const link = document.createElement("a");
+        link.href = someVariable;
+        document.querySelector("iframe")!.src = someVariable;
+        document.querySelector<HTMLFormElement>("#login")?.setAttribute("action", someVariable);
+      `,
+      errors: [
+        {
+          messageId: "unsafeUrlAttribute",
+          data: { sink: "HTMLAnchorElement#href" },
+        },
+        {
+          messageId: "unsafeUrlAttribute",
+          data: { sink: "HTMLIFrameElement#src" },
+        },
+        {
+          messageId: "unsafeUrlAttribute",
+          data: { sink: 'HTMLFormElement#setAttribute("action")' },
+        },
+      ],
+    },
+    // Nullable and union element types
+    {
+      code: `
+        ${PREAMBLE}
+        declare var maybeLink: HTMLAnchorElement | null;
+        declare var frameOrEmbed: HTMLIFrameElement | HTMLEmbedElement;
+        maybeLink!.href = someVariable;
+        frameOrEmbed.src = someVariable;
+      `,
+      errors: [
+        { messageId: "unsafeUrlAttribute" },
+        { messageId: "unsafeUrlAttribute" },
+      ],
+    },
+    // Schemes outside the allowlist
+    {
+      code: `${PREAMBLE} anchor.href = "ftp://example.com/file";`,
+      options: [{ allowedSchemes: ["http:", "https:"] }],
+      errors: [{ messageId: "unsafeUrlAttribute" }],
+    },
+    // Dynamic meta refresh
+    {
+      code: `
+        ${PREAMBLE}
+        const meta = document.createElement("meta");
+        meta.httpEquiv = "refresh";
+        meta.content = \`0; url=\${someVariable}\`;
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        const meta = document.createElement("meta");
+        meta.content = "0;" + someVariable;
+        meta.setAttribute("http-equiv", "Refresh");
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        const meta = document.createElement("meta");
+        meta.setAttribute("http-equiv", "refresh");
+        meta.setAttribute("content", someVariable);
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        const meta = document.createElement("meta");
+        meta.httpEquiv = "refresh";
+        meta.content = "0; url=javascript:alert(1)";
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        const meta = document.createElement("meta");
+        meta.httpEquiv = "refresh";
+        meta.content = \`0; url=//\${someVariable}\`;
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+    // Dynamic http-equiv may be "refresh"
+    {
+      code: `
+        ${PREAMBLE}
+        declare var httpEquiv: string;
+        const meta = document.createElement("meta");
+        meta.httpEquiv = httpEquiv;
+        meta.content = someVariable;
+      `,
+      errors: [{ messageId: "unsafeMetaRefresh" }],
+    },
+  ],
+});
@@ -0,0 +1,267 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { describe, it, afterAll } from "vitest";
+import rule from "../../src/rules/require-message-origin-check.js";
+
+RuleTester.afterAll = afterAll;
+RuleTester.it = it;
+RuleTester.describe = describe;
+
+const PREAMBLE = `
+declare function handle(data: unknown): void;
+declare var iframe: HTMLIFrameElement;
+declare var ALLOWED_ORIGINS: string[];
+`;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "./tsconfig.test.json",
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run("require-message-origin-check", rule, {
+  valid: [
+    // Exact comparisons before the data is used
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        if (event.origin !== "https://example.com") return;
+        handle(event.data);
+      });
+    `,
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        if (event.source === iframe.contentWindow) {
+          handle(event.data);
+        }
+      });
+    `,
+    `
+      ${PREAMBLE}
+      addEventListener("message", function (event) {
+        switch (event.origin) {
+          case "https://example.com":
+            handle(event.data);
+        }
+      });
+    `,
+    // Allowlists and validators
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        if (!ALLOWED_ORIGINS.includes(event.origin)) return;
+        handle(event.data);
+      });
+    `,
+    {
+      code: `
+        ${PREAMBLE}
+        import { assertAllowedOrigin } from "@our/security";
+        window.addEventListener("message", (event) => {
+          assertAllowedOrigin(event.origin);
+          handle(event.data);
+        });
+      `,
+      options: [
+        {
+          validators: [{ from: "@our/security", name: "assertAllowedOrigin" }],
+        },
+      ],
+    },
+    // Check results that are stored or short-circuit the data use
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        const isTrusted = event.origin === "https://example.com";
+        if (!isTrusted) return;
+        handle(event.data);
+      });
+    `,
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        ALLOWED_ORIGINS.includes(event.origin) && handle(event.data);
+      });
+    `,
+    // Destructured events
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", ({ data, origin }) => {
+        if (origin !== "https://example.com") return;
+        handle(data);
+      });
+    `,
+    `
+      ${PREAMBLE}
+      window.onmessage = (event) => {
+        const { data, origin } = event;
+        if (origin === "https://example.com") handle(data);
+      };
+    `,
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", (event) => {
+        const data = event.data;
+        const origin = event.origin;
+        if (origin !== "https://example.com") return;
+        handle(data);
+      });
+    `,
+    // Handlers that don't use the data
+    `
+      ${PREAMBLE}
+      window.addEventListener("message", () => {
+        console.log("ping");
+      });
+    `,
+    // Other events and other targets
+    `
+      ${PREAMBLE}
+      window.addEventListener("resize", (event) => handle(event));
+      declare var worker: Worker;
+      worker.addEventListener("message", (event) => handle(event.data));
+      worker.onmessage = (event) => handle(event.data);
+    `,
+    // Dedicated workers, whose messages come from the page that created them
+    `/// <reference lib="webworker" />
+      ${PREAMBLE}
+      self.onmessage = (event) => handle(event.data);
+      self.addEventListener("message", (event) => handle(event.data));
+      onmessage = (event) => handle(event.data);
+      addEventListener("message", (event) => handle(event.data));
+    `,
+    // Shadowed globals
+    `
+      ${PREAMBLE}
+      function setup(addEventListener: (type: string, fn: (event: MessageEvent) => void) => void) {
+        addEventListener("message", (event) => handle(event.data));
+      }
+    `,
+  ],
+  invalid: [
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", (event) => {
+          handle(event.data);
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck", line: 8 }],
+    },
+    // Checked too late
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", (event) => {
+          const message = JSON.parse(event.data);
+          if (event.origin !== "https://example.com") return;
+          handle(message);
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck" }],
+    },
+    // Handlers passed by reference
+    {
+      code: `
+        ${PREAMBLE}
+        function onMessage(event: MessageEvent) {
+          handle(event.data);
+        }
+        const onMessageArrow = ({ data }: MessageEvent) => handle(data);
+        window.addEventListener("message", onMessage);
+        self.addEventListener("message", onMessageArrow);
+      `,
+      errors: [
+        { messageId: "missingOriginCheck", line: 8 },
+        { messageId: "missingOriginCheck", line: 10 },
+      ],
+    },
+    // onmessage and window aliases
+    {
+      code: `
+        ${PREAMBLE}
+        const w = window;
+        w.onmessage = (event) => handle(event.data);
+        onmessage = (event) => handle(event.data);
+        const frame = iframe.contentWindow!;
+        frame.addEventListener("message", (event) => handle(event.data));
+      `,
+      errors: [
+        { messageId: "missingOriginCheck" },
+        { messageId: "missingOriginCheck" },
+        { messageId: "missingOriginCheck" },
+      ],
+    },
+    // Origin reads that don't decide whether the data is used
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", (event) => {
+          console.log(event.origin);
+          document.body.innerHTML = event.data;
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", (event) => {
+          event.origin === "https://example.com";
+          handle(event.data);
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck" }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        import { assertAllowedOrigin } from "@our/security";
+        window.addEventListener("message", (event) => {
+          assertAllowedOrigin(event.origin);
+          handle(event.data);
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck" }],
+    },
+    // Weak checks
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", (event) => {
+          if (!event.origin.includes("example.com")) return;
+          handle(event.data);
+        });
+      `,
+      errors: [{ messageId: "weakOriginCheck", data: { method: "includes" } }],
+    },
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", ({ origin, data }) => {
+          if (origin.indexOf("https://example.com") === 0) {
+            handle(data);
+          }
+        });
+      `,
+      errors: [{ messageId: "weakOriginCheck", data: { method: "indexOf" } }],
+    },
+    // Destructured data read right away
+    {
+      code: `
+        ${PREAMBLE}
+        window.addEventListener("message", ({ data: { type }, origin }) => {
+          if (origin !== "https://example.com") return;
+          handle(type);
+        });
+      `,
+      errors: [{ messageId: "missingOriginCheck" }],
+    },
+  ],
+});
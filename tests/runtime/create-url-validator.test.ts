@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createUrlValidator } from "../../src/runtime/create-url-validator.js";
+import type { TrustedUrl } from "../../src/runtime/ensure-trusted-url.js";
+
+describe("createUrlValidator", () => {
+  let originalWindow: typeof globalThis.window;
+
+  beforeEach(() => {
+    globalThis.window = {
+      // @ts-expect-error - no browser types during tests
+      location: {
+        origin: "https://example.com",
+      },
+    };
+  });
+
+  afterEach(() => {
+    // @ts-expect-error - no browser types during tests
+    globalThis.window = originalWindow;
+  });
+
+  const validator = createUrlValidator({
+    allowedOrigins: ["https://example.com", "https://*.example.com"],
+    deniedPaths: ["/logout"],
+  });
+
+  describe("ensure", () => {
+    it("should return trusted URLs", () => {
+      const url: TrustedUrl = validator.ensure("/dashboard");
+      expect(url).toBe("/dashboard");
+      expect(validator.ensure("https://app.example.com/")).toBe(
+        "https://app.example.com/"
+      );
+      expect(validator.ensure(new URL("https://example.com/a"))).toBe(
+        "https://example.com/a"
+      );
+    });
+
+    it("should throw for untrusted URLs", () => {
+      expect(() => validator.ensure("https://evil.com/")).toThrow(
+        "Cross-origin URL not allowed: https://evil.com"
+      );
+      expect(() => validator.ensure("/logout")).toThrow(
+        "URL path not allowed: /logout"
+      );
+    });
+
+    it("should return canonical URLs with the canonical option", () => {
+      const canonical = createUrlValidator({ canonical: true });
+      expect(canonical.ensure("/a/../b")).toBe("https://example.com/b");
+    });
+  });
+
+  describe("is", () => {
+    it("should check URLs without throwing", () => {
+      expect(validator.is("/dashboard")).toBe(true);
+      expect(validator.is("javascript:alert(1)")).toBe(false);
+      expect(validator.is(new URL("https://evil.com/"))).toBe(false);
+    });
+  });
+
+  describe("tryParse", () => {
+    it("should return the parsed URL if it is trusted", () => {
+      expect(validator.tryParse("/dashboard?tab=1")?.href).toBe(
+        "https://example.com/dashboard?tab=1"
+      );
+    });
+
+    it("should return null for untrusted URLs", () => {
+      expect(validator.tryParse("https://evil.com/")).toBeNull();
+      expect(validator.tryParse("")).toBeNull();
+    });
+  });
+
+  describe("options", () => {
+    it("should not be affected by later changes to the options", () => {
+      const allowedOrigins = ["https://trusted.com"];
+      const trusted = createUrlValidator({ allowedOrigins });
+      allowedOrigins.push("https://evil.com");
+      expect(trusted.is("https://evil.com/")).toBe(false);
+      expect(trusted.options.allowedOrigins).toEqual(["https://trusted.com"]);
+    });
+
+    it("should be frozen", () => {
+      const frozen = createUrlValidator({
+        pathRules: [{ origin: "https://example.com", deniedPaths: ["/a"] }],
+      });
+      expect(Object.isFrozen(frozen)).toBe(true);
+      expect(Object.isFrozen(frozen.options)).toBe(true);
+      expect(Object.isFrozen(frozen.options.pathRules)).toBe(true);
+      expect(Object.isFrozen(frozen.options.pathRules?.[0]?.deniedPaths)).toBe(
+        true
+      );
+    });
+
+    it("should reject invalid origin patterns when created", () => {
+      expect(() =>
+        createUrlValidator({ allowedOrigins: ["https://*"] })
+      ).toThrow("Invalid origin pattern: https://*");
+    });
+
+    it("should resolve the current origin on every call", () => {
+      const sameOrigin = createUrlValidator();
+      expect(sameOrigin.is("https://example.com/")).toBe(true);
+
+      globalThis.window = {
+        // @ts-expect-error - no browser types during tests
+        location: { origin: "https://other.com" },
+      };
+      expect(sameOrigin.is("https://example.com/")).toBe(false);
+      expect(sameOrigin.is("https://other.com/")).toBe(true);
+    });
+  });
+});
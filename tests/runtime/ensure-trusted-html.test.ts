@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  ensureTrustedHtml,
+  type TrustedHtml,
+} from "../../src/runtime/ensure-trusted-html.js";
+
+describe("ensureTrustedHtml", () => {
+  const stripScripts = (html: string) =>
+    html.replace(/<script[\s\S]*?<\/script>/gi, "");
+
+  it("should return the sanitized HTML", () => {
+    expect(
+      ensureTrustedHtml("<p>Hi</p><script>alert(1)</script>", {
+        sanitize: stripScripts,
+      })
+    ).toBe("<p>Hi</p>");
+  });
+
+  it("should pass the HTML to the sanitizer", () => {
+    const sanitize = vi.fn((html: string) => html);
+    ensureTrustedHtml("<b>bold</b>", { sanitize });
+    expect(sanitize).toHaveBeenCalledWith("<b>bold</b>");
+  });
+
+  it("should allow empty HTML", () => {
+    expect(ensureTrustedHtml("", { sanitize: stripScripts })).toBe("");
+  });
+
+  it("should reject non-string HTML", () => {
+    expect(() =>
+      // @ts-expect-error - testing runtime behavior
+      ensureTrustedHtml(null, { sanitize: stripScripts })
+    ).toThrow(TypeError);
+  });
+
+  it("should require a sanitizer", () => {
+    expect(() =>
+      // @ts-expect-error - testing runtime behavior
+      ensureTrustedHtml("<p>Hi</p>", {})
+    ).toThrow("A sanitize function is required");
+  });
+
+  it("should reject sanitizers that don't return a string", () => {
+    expect(() =>
+      ensureTrustedHtml("<p>Hi</p>", {
+        // @ts-expect-error - e.g. DOMPurify with RETURN_DOM
+        sanitize: () => ({}),
+      })
+    ).toThrow("Sanitizer must return a string");
+  });
+
+  it("should return a TrustedHtml branded type", () => {
+    const result: TrustedHtml = ensureTrustedHtml("<p>Hi</p>", {
+      sanitize: stripScripts,
+    });
+    expect(typeof result).toBe("string");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  ensureTrustedScriptUrl,
+  type TrustedScriptUrl,
+} from "../../src/runtime/ensure-trusted-script-url.js";
+
+describe("ensureTrustedScriptUrl", () => {
+  let originalWindow: typeof globalThis.window;
+
+  beforeEach(() => {
+    globalThis.window = {
+      // @ts-expect-error - no browser types during tests
+      location: {
+        origin: "https://example.com",
+      },
+    };
+  });
+
+  afterEach(() => {
+    // @ts-expect-error - no browser types during tests
+    globalThis.window = originalWindow;
+  });
+
+  describe("valid URLs", () => {
+    it("should allow relative URLs", () => {
+      expect(ensureTrustedScriptUrl("/worker.js")).toBe("/worker.js");
+      expect(ensureTrustedScriptUrl("./chunk.js")).toBe("./chunk.js");
+    });
+
+    it("should allow same-origin URLs", () => {
+      expect(ensureTrustedScriptUrl("https://example.com/app.js")).toBe(
+        "https://example.com/app.js"
+      );
+    });
+
+    it("should allow allowlisted origins", () => {
+      expect(
+        ensureTrustedScriptUrl("https://cdn.example.com/lib.js", {
+          allowedOrigins: ["https://cdn.example.com"],
+        })
+      ).toBe("https://cdn.example.com/lib.js");
+    });
+
+    it("should allow same-origin blob: URLs when allowBlob is true", () => {
+      const url = "blob:https://example.com/7c1b7e2e-5b0a-4d1e-9d8f";
+      expect(ensureTrustedScriptUrl(url, { allowBlob: true })).toBe(url);
+    });
+
+    it("should allow data: URLs when allowData is true", () => {
+      const url = "data:text/javascript,console.log(1)";
+      expect(ensureTrustedScriptUrl(url, { allowData: true })).toBe(url);
+    });
+  });
+
+  describe("invalid URLs", () => {
+    it("should reject cross-origin URLs", () => {
+      expect(() => ensureTrustedScriptUrl("https://evil.com/x.js")).toThrow(
+        "Script URL origin not allowed: https://evil.com"
+      );
+      expect(() => ensureTrustedScriptUrl("//evil.com/x.js")).toThrow(
+        "Script URL origin not allowed: https://evil.com"
+      );
+    });
+
+    it("should reject http: versions of the current origin", () => {
+      expect(() => ensureTrustedScriptUrl("http://example.com/x.js")).toThrow(
+        "Script URL origin not allowed: http://example.com"
+      );
+    });
+
+    it("should reject blob: and data: URLs by default", () => {
+      expect(() =>
+        ensureTrustedScriptUrl("blob:https://example.com/7c1b7e2e")
+      ).toThrow("Unsafe script URL protocol: blob:");
+      expect(() =>
+        ensureTrustedScriptUrl("data:text/javascript,alert(1)")
+      ).toThrow("Unsafe script URL protocol: data:");
+    });
+
+    it("should reject blob: URLs created by other origins", () => {
+      expect(() =>
+        ensureTrustedScriptUrl("blob:https://evil.com/7c1b7e2e", {
+          allowBlob: true,
+        })
+      ).toThrow("Script URL origin not allowed: https://evil.com");
+    });
+
+    it("should reject dangerous protocols", () => {
+      expect(() => ensureTrustedScriptUrl("javascript:alert(1)")).toThrow(
+        "Unsafe script URL protocol: javascript:"
+      );
+    });
+
+    it("should reject empty and non-string URLs", () => {
+      expect(() => ensureTrustedScriptUrl("")).toThrow(
+        "Script URL must be a non-empty string"
+      );
+      expect(() =>
+        // @ts-expect-error - testing runtime validation
+        ensureTrustedScriptUrl(null)
+      ).toThrow("Script URL must be a non-empty string");
+    });
+
+    it("should reject relative URLs without a current origin", () => {
+      // @ts-expect-error - no browser types during tests
+      globalThis.window = undefined;
+      expect(() => ensureTrustedScriptUrl("/worker.js")).toThrow(
+        "Invalid script URL: /worker.js"
+      );
+    });
+  });
+
+  it("should brand the returned URL", () => {
+    const url: TrustedScriptUrl = ensureTrustedScriptUrl("/worker.js");
+    expect(url).toBe("/worker.js");
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  getTrustedReturnUrl,
+  safeRedirect,
+  toTrustedUrl,
+} from "../../src/runtime/trusted-redirects.js";
+import { UntrustedUrlError } from "../../src/runtime/untrusted-url-error.js";
+
+describe("trusted redirects", () => {
+  let originalWindow: typeof globalThis.window;
+  const assign = vi.fn();
+  const replace = vi.fn();
+
+  function setLocation(href: string) {
+    const { origin, search, hash } = new URL(href);
+    globalThis.window = {
+      // @ts-expect-error - no browser types during tests
+      location: { origin, href, search, hash, assign, replace },
+    };
+  }
+
+  beforeEach(() => {
+    assign.mockClear();
+    replace.mockClear();
+    setLocation("https://example.com/login");
+  });
+
+  afterEach(() => {
+    // @ts-expect-error - no browser types during tests
+    globalThis.window = originalWindow;
+    vi.unstubAllGlobals();
+  });
+
+  describe("toTrustedUrl", () => {
+    it("should return trusted URLs", () => {
+      expect(toTrustedUrl("/settings", "/")).toBe("/settings");
+    });
+
+    it("should return the fallback for missing or untrusted URLs", () => {
+      expect(toTrustedUrl(null, "/")).toBe("/");
+      expect(toTrustedUrl(undefined, "/")).toBe("/");
+      expect(toTrustedUrl("", "/")).toBe("/");
+      expect(toTrustedUrl("javascript:alert(1)", "/")).toBe("/");
+      expect(toTrustedUrl("https://evil.com/", "/home")).toBe("/home");
+    });
+
+    it("should pass options to the validation", () => {
+      expect(
+        toTrustedUrl("https://trusted.com/", "/", {
+          allowedOrigins: ["https://trusted.com"],
+        })
+      ).toBe("https://trusted.com/");
+      expect(toTrustedUrl("/logout", "/", { deniedPaths: ["/logout"] })).toBe(
+        "/"
+      );
+    });
+
+    it("should use the root if the fallback is untrusted", () => {
+      expect(toTrustedUrl(null, "https://evil.com/")).toBe("/");
+      expect(toTrustedUrl("javascript:alert(1)", "javascript:void 0")).toBe(
+        "/"
+      );
+    });
+
+    it("should throw if neither the fallback nor the root is trusted", () => {
+      expect(() =>
+        toTrustedUrl("https://evil.com/", "/x", { allowedPaths: ["/app/*"] })
+      ).toThrow(UntrustedUrlError);
+      expect(
+        toTrustedUrl("https://evil.com/", "/x", {
+          allowedPaths: ["/", "/app/*"],
+        })
+      ).toBe("/");
+    });
+  });
+
+  describe("getTrustedReturnUrl", () => {
+    it("should read the parameter from the query string", () => {
+      setLocation("https://example.com/login?returnUrl=%2Fsettings%3Ftab%3D2");
+      expect(getTrustedReturnUrl("returnUrl")).toBe("/settings?tab=2");
+    });
+
+    it("should read the parameter from the fragment", () => {
+      setLocation("https://example.com/#returnUrl=/settings");
+      expect(getTrustedReturnUrl("returnUrl", { source: "hash" })).toBe(
+        "/settings"
+      );
+
+      setLocation("https://example.com/#/login?returnUrl=/profile");
+      expect(getTrustedReturnUrl("returnUrl", { source: "hash" })).toBe(
+        "/profile"
+      );
+    });
+
+    it("should return the fallback for missing or untrusted parameters", () => {
+      expect(getTrustedReturnUrl("returnUrl")).toBe("/");
+
+      setLocation("https://example.com/login?returnUrl=https://evil.com/");
+      expect(getTrustedReturnUrl("returnUrl", { fallback: "/home" })).toBe(
+        "/home"
+      );
+    });
+
+    it("should not redirect back to the current page", () => {
+      setLocation("https://example.com/login?returnUrl=/login?x=1");
+      expect(getTrustedReturnUrl("returnUrl")).toBe("/");
+
+      setLocation(
+        "https://example.com/login?returnUrl=https://example.com/login%23top"
+      );
+      expect(getTrustedReturnUrl("returnUrl")).toBe("/");
+    });
+
+    it("should compare hash routes with hash routing", () => {
+      setLocation("https://example.com/#/login?returnUrl=%23%2Fprofile");
+      expect(getTrustedReturnUrl("returnUrl", { source: "hash" })).toBe(
+        "#/profile"
+      );
+
+      setLocation("https://example.com/#/login?returnUrl=/%23/profile");
+      expect(getTrustedReturnUrl("returnUrl", { source: "hash" })).toBe(
+        "/#/profile"
+      );
+
+      setLocation("https://example.com/#/login?returnUrl=/%23/login?x=1");
+      expect(getTrustedReturnUrl("returnUrl", { source: "hash" })).toBe("/");
+    });
+
+    it("should return the fallback without a window", () => {
+      // @ts-expect-error - simulating non-browser environment
+      globalThis.window = undefined;
+      expect(() => getTrustedReturnUrl("returnUrl")).toThrow(UntrustedUrlError);
+      expect(
+        getTrustedReturnUrl("returnUrl", { baseUrl: "https://example.com/" })
+      ).toBe("/");
+      expect(
+        getTrustedReturnUrl("returnUrl", {
+          fallback: "https://example.com/",
+          allowedOrigins: ["https://example.com"],
+        })
+      ).toBe("https://example.com/");
+    });
+
+    it("should read the parameter in workers", () => {
+      // @ts-expect-error - simulating a worker without a window
+      globalThis.window = undefined;
+      const href = "https://example.com/worker.js?returnUrl=/settings";
+      const { origin, search, hash } = new URL(href);
+      vi.stubGlobal("location", { origin, href, search, hash });
+
+      expect(getTrustedReturnUrl("returnUrl")).toBe("/settings");
+      expect(() => safeRedirect("/settings")).toThrow(
+        "Cannot redirect without a location"
+      );
+    });
+  });
+
+  describe("safeRedirect", () => {
+    it("should assign trusted URLs", () => {
+      expect(safeRedirect("/settings")).toBe("/settings");
+      expect(assign).toHaveBeenCalledWith("/settings");
+      expect(replace).not.toHaveBeenCalled();
+    });
+
+    it("should replace the current entry with the replace option", () => {
+      safeRedirect("/settings", { replace: true });
+      expect(replace).toHaveBeenCalledWith("/settings");
+      expect(assign).not.toHaveBeenCalled();
+    });
+
+    it("should not redirect to untrusted URLs", () => {
+      expect(() => safeRedirect("https://evil.com/")).toThrow(
+        "Cross-origin URL not allowed"
+      );
+      expect(() => safeRedirect(null)).toThrow(
+        "URL must be a non-empty string"
+      );
+      expect(assign).not.toHaveBeenCalled();
+    });
+
+    it("should redirect to the fallback for untrusted URLs", () => {
+      expect(safeRedirect("javascript:alert(1)", { fallback: "/" })).toBe("/");
+      expect(assign).toHaveBeenCalledWith("/");
+    });
+
+    it("should not redirect if the fallback and the root are untrusted", () => {
+      expect(() =>
+        safeRedirect("https://evil.com/", {
+          fallback: "/x",
+          deniedPaths: ["/*"],
+        })
+      ).toThrow(UntrustedUrlError);
+      expect(assign).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTrustedTypesPolicy } from "../../src/runtime/trusted-types.js";
+
+const stripScripts = (html: string) =>
+  html.replace(/<script[\s\S]*?<\/script>/gi, "");
+
+describe("createTrustedTypesPolicy", () => {
+  let originalWindow: typeof globalThis.window;
+
+  beforeEach(() => {
+    globalThis.window = {
+      // @ts-expect-error - no browser types during tests
+      location: {
+        origin: "https://example.com",
+      },
+    };
+  });
+
+  afterEach(() => {
+    // @ts-expect-error - no browser types during tests
+    globalThis.window = originalWindow;
+    vi.unstubAllGlobals();
+  });
+
+  describe("with the Trusted Types API", () => {
+    // Wraps values like the browser's TrustedScriptURL and TrustedHTML
+    class FakeTrustedValue {
+      constructor(private readonly value: string) {}
+      toString() {
+        return this.value;
+      }
+    }
+
+    const createPolicy = vi.fn(
+      (
+        _name: string,
+        rules: {
+          createScriptURL: (url: string) => string;
+          createHTML?: (html: string) => string;
+        }
+      ) => ({
+        createScriptURL: (url: string) =>
+          new FakeTrustedValue(rules.createScriptURL(url)),
+        createHTML: (html: string) => {
+          if (!rules.createHTML) {
+            throw new TypeError(
+              "Policy's TrustedTypePolicyOptions did not specify a 'createHTML' member."
+            );
+          }
+          return new FakeTrustedValue(rules.createHTML(html));
+        },
+      })
+    );
+
+    beforeEach(() => {
+      createPolicy.mockClear();
+      vi.stubGlobal("trustedTypes", { createPolicy });
+    });
+
+    it("should register a named policy", () => {
+      const policy = createTrustedTypesPolicy("native-register");
+      expect(policy.isNative).toBe(true);
+      expect(policy.name).toBe("native-register");
+      expect(createPolicy).toHaveBeenCalledTimes(1);
+      expect(createPolicy.mock.calls[0]?.[0]).toBe("native-register");
+      expect(typeof createPolicy.mock.calls[0]?.[1].createScriptURL).toBe(
+        "function"
+      );
+    });
+
+    it("should only register HTML creation with a sanitizer", () => {
+      createTrustedTypesPolicy("native-no-html");
+      expect(createPolicy.mock.calls[0]?.[1]).not.toHaveProperty("createHTML");
+    });
+
+    it("should return the browser's trusted values", () => {
+      const policy = createTrustedTypesPolicy("native-values", {
+        html: { sanitize: stripScripts },
+      });
+
+      const url = policy.createScriptURL("/worker.js");
+      expect(url).toBeInstanceOf(FakeTrustedValue);
+      expect(String(url)).toBe("/worker.js");
+      expect(String(policy.createHTML("<p>Hi</p><script></script>"))).toBe(
+        "<p>Hi</p>"
+      );
+    });
+
+    it("should validate script URLs in the policy", () => {
+      const policy = createTrustedTypesPolicy("native-validate", {
+        scriptUrl: { allowedOrigins: ["https://cdn.example.com"] },
+      });
+
+      expect(
+        String(policy.createScriptURL("https://cdn.example.com/a.js"))
+      ).toBe("https://cdn.example.com/a.js");
+      expect(() => policy.createScriptURL("https://evil.com/a.js")).toThrow(
+        "Script URL origin not allowed: https://evil.com"
+      );
+    });
+
+    it("should create a policy once per name", () => {
+      const first = createTrustedTypesPolicy("native-once");
+      const second = createTrustedTypesPolicy("native-once");
+      expect(second).toBe(first);
+      expect(createPolicy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject reusing a name with other options", () => {
+      const options = { scriptUrl: { allowedOrigins: ["https://a.example"] } };
+      const first = createTrustedTypesPolicy("native-options", options);
+
+      expect(createTrustedTypesPolicy("native-options", options)).toBe(first);
+      expect(createTrustedTypesPolicy("native-options")).toBe(first);
+      expect(() =>
+        createTrustedTypesPolicy("native-options", {
+          scriptUrl: { allowedOrigins: ["https://b.example"] },
+        })
+      ).toThrow(
+        'Trusted Types policy "native-options" already exists with different options'
+      );
+      expect(createPolicy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("without the Trusted Types API", () => {
+    it("should fall back to the validated strings", () => {
+      const policy = createTrustedTypesPolicy("fallback-values", {
+        html: { sanitize: stripScripts },
+      });
+
+      expect(policy.isNative).toBe(false);
+      expect(policy.createScriptURL("/worker.js")).toBe("/worker.js");
+      expect(policy.createHTML("<b>Hi</b><script></script>")).toBe("<b>Hi</b>");
+    });
+
+    it("should still validate values", () => {
+      const policy = createTrustedTypesPolicy("fallback-validate");
+      expect(() => policy.createScriptURL("javascript:alert(1)")).toThrow(
+        "Unsafe script URL protocol: javascript:"
+      );
+    });
+
+    it("should reject HTML without a sanitizer", () => {
+      const policy = createTrustedTypesPolicy("fallback-no-html");
+      expect(() => policy.createHTML("<p>Hi</p>")).toThrow(
+        'Trusted Types policy "fallback-no-html" has no HTML sanitizer'
+      );
+    });
+  });
+});
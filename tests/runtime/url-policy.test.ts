@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { defineUrlPolicy } from "../../src/runtime/url-policy.js";
+import {
+  ensureTrustedUrl,
+  isTrustedUrl,
+} from "../../src/runtime/ensure-trusted-url.js";
+import { createUrlValidator } from "../../src/runtime/create-url-validator.js";
+
+describe("defineUrlPolicy", () => {
+  const urlPolicy = defineUrlPolicy({
+    allowedOrigins: ["https://app.example.com", "https://*.example.com"],
+    allowedProtocols: ["https:"],
+    pathRules: [{ origin: "https://*.example.com", deniedPaths: ["/logout"] }],
+  });
+
+  it("should configure ensureTrustedUrl", () => {
+    expect(ensureTrustedUrl("https://tenant.example.com/", urlPolicy)).toBe(
+      "https://tenant.example.com/"
+    );
+    expect(isTrustedUrl("http://app.example.com/", urlPolicy)).toBe(false);
+    expect(isTrustedUrl("https://tenant.example.com/logout", urlPolicy)).toBe(
+      false
+    );
+  });
+
+  it("should configure URL validators", () => {
+    const validator = createUrlValidator({ ...urlPolicy, strict: true });
+    expect(validator.is("https://app.example.com/")).toBe(true);
+    expect(validator.is("https://evil.com/")).toBe(false);
+  });
+
+  it("should freeze the policy", () => {
+    expect(Object.isFrozen(urlPolicy)).toBe(true);
+    expect(Object.isFrozen(urlPolicy.allowedOrigins)).toBe(true);
+    expect(Object.isFrozen(urlPolicy.pathRules?.[0])).toBe(true);
+  });
+
+  it("should reject invalid origin patterns", () => {
+    expect(() =>
+      defineUrlPolicy({ allowedOrigins: ["https://*.example.com/path"] })
+    ).toThrow("Invalid origin pattern: https://*.example.com/path");
+  });
+});